@@ -1,7 +1,12 @@
-import type { PrefixSuffixOptions, TransformProps } from "@/types.ts";
+import type { Mode, PrefixSuffixOptions, TransformProps } from "@/types.ts";
 
 import { parseArgs as jsrParseArgs } from "jsr:@std/cli/parse-args";
-import { initTransform, transform } from "@/index.ts";
+import {
+  createCodeFrame,
+  CssSeasoningError,
+  initTransform,
+  transform,
+} from "@/index.ts";
 
 // TODO: add cli test
 
@@ -18,33 +23,71 @@ USAGE:
 OPTIONS:
   -h, --help                   Show this help message
   -o, --output <file>          Output file (outputs to stdout if not specified)
-  -m, --mode <mode>            Transformation mode: hash, minimal, or debug (default: hash)
+  -m, --mode <mode>            Transformation mode: hash, minimal, debug, or template (default: hash)
+      --mode-class <mode>      Transformation mode of class names (overrides --mode)
+      --mode-id <mode>         Transformation mode of id names (overrides --mode)
+      --mode-ident <mode>      Transformation mode of identifiers (overrides --mode)
+  -t, --template <template>    Pattern of the names in template mode, eg. "[name]__[hash:5]" (default: [name]__[hash:5])
+      --minimal-order <order>  Order of minimal names: appearance, or frequency to give the shortest names to the most used names (default: appearance)
+      --minimal-tie-break <order> Order of names used equally often with --minimal-order frequency: appearance or alphabetical (default: appearance)
+      --minimal-alphabet <chars> Characters of the names in minimal mode, eg. "a-zA-Z0-9_-" (default: a-z)
   -d, --debug-symbol <symbol>  Symbol to use for debug mode (default: _)
   -p, --prefix <prefix>        Prefix to add after debug symbol in debug mode
       --prefix-selector <prefix> Prefix to use for selectors (overrides --prefix)
+      --prefix-class <prefix>  Prefix to use for class names (overrides --prefix-selector)
+      --prefix-id <prefix>     Prefix to use for id names (overrides --prefix-selector)
       --prefix-ident <prefix>  Prefix to use for identifiers (overrides --prefix)
   -s, --suffix <suffix>        Suffix to add at the end in debug mode
       --suffix-selector <suffix> Suffix to use for selectors (overrides --suffix)
+      --suffix-class <suffix>  Suffix to use for class names (overrides --suffix-selector)
+      --suffix-id <suffix>     Suffix to use for id names (overrides --suffix-selector)
       --suffix-ident <suffix>  Suffix to use for identifiers (overrides --suffix)
-  --seed <number>              Seed for hash generation in hash mode
+  --seed <seed>                Seed for hash generation in hash mode, an integer or any other string
+  --hash-length <number>       Number of characters of the hashes in hash mode (default: 8)
+  --hash-encoding <encoding>   Encoding of the hashes in hash mode: hex, base36, base52 or base62 (default: hex)
+  --hash-algorithm <algorithm> Hash algorithm in hash mode: xxh32 or xxh64 (default: xxh32)
   --minify                     Minify the output CSS (default: true)
-  --source-map                 Generate source map
+  --source-map                 Generate a source map (written to <output>.map, or inlined when printing to stdout)
+  --input-source-map <file>    Source map of the input CSS to chain the generated source map to (implies --source-map)
   --conversion-tables <file>   JSON file with existing conversion tables to preserve mappings
   --save-tables <file>         Save the conversion tables to a JSON file (prints to stderr if not specified)
   --ignore <pattern>           Regex pattern for selectors and custom properties to ignore (can be used multiple times)
   --ignore-selector <pattern>  Regex pattern for selectors to ignore (can be used multiple times, overridden by --ignore)
+  --ignore-class <pattern>     Regex pattern for class names to ignore (can be used multiple times, overrides --ignore-selector)
+  --ignore-id <pattern>        Regex pattern for id names to ignore (can be used multiple times, overrides --ignore-selector)
   --ignore-ident <pattern>     Regex pattern for custom properties to ignore (can be used multiple times, overridden by --ignore)
+  --no-rename-classes          Keep the class names as is
+  --no-rename-ids              Keep the id names as is
+  --no-rename-idents           Keep the custom properties as is
 
 EXAMPLES:
   css-seasoning styles.css
   css-seasoning -o output.css -m minimal styles.css
+  css-seasoning -m minimal --minimal-alphabet "a-zA-Z0-9_-" styles.css
+  css-seasoning -o output.css --input-source-map styles.css.map styles.css
   css-seasoning --mode debug --debug-symbol "_d_" styles.css
+  css-seasoning --mode template --template "[file]__[name]__[hash:5]" styles.css
+  css-seasoning --mode-class minimal --mode-id hash --no-rename-idents styles.css
   css-seasoning --ignore "^btn-" --ignore "^theme-" styles.css
   css-seasoning --ignore-selector "^btn-" --ignore-ident "^theme-" styles.css
   css-seasoning --prefix "prefix-" --suffix-selector "-sel" --suffix-ident "-var" styles.css
   `);
 };
 
+/**
+ * Returns the value of a flag that takes one of the given choices, throwing on any other value
+ */
+const parseChoice = <T extends string>(
+  flag: string,
+  value: string | undefined,
+  choices: readonly T[],
+): T | undefined => {
+  if (value !== undefined && !choices.includes(value as T)) {
+    throw new Error(`Invalid value "${value}" for --${flag}, use ${choices.join(", ")}`);
+  }
+  return value as T | undefined;
+};
+
 /**
  * Parse command line arguments and return an object with all options
  */
@@ -53,29 +96,51 @@ const parseArgsa = () => {
     string: [
       "output", 
       "mode", 
+      "mode-class",
+      "mode-id",
+      "mode-ident",
+      "template",
+      "minimal-order",
+      "minimal-tie-break",
+      "minimal-alphabet",
       "debug-symbol", 
       "prefix", 
       "prefix-selector", 
+      "prefix-class",
+      "prefix-id",
       "prefix-ident", 
       "suffix", 
       "suffix-selector", 
+      "suffix-class",
+      "suffix-id",
       "suffix-ident", 
       "seed", 
+      "hash-length",
+      "hash-encoding",
+      "hash-algorithm",
       "conversion-tables", 
       "save-tables", 
+      "input-source-map",
       "ignore",
       "ignore-selector", 
+      "ignore-class",
+      "ignore-id",
       "ignore-ident"
     ],
     boolean: [
       "help", 
       "minify", 
-      "source-map"
+      "source-map",
+      "rename-classes",
+      "rename-ids",
+      "rename-idents"
     ],
+    negatable: ["rename-classes", "rename-ids", "rename-idents"],
     alias: {
       h: "help",
       o: "output",
       m: "mode",
+      t: "template",
       d: "debug-symbol",
       p: "prefix",
       s: "suffix",
@@ -84,8 +149,11 @@ const parseArgsa = () => {
       mode: "hash",
       "debug-symbol": "_",
       minify: true,
+      "rename-classes": true,
+      "rename-ids": true,
+      "rename-idents": true,
     },
-    collect: ["ignore", "ignore-selector", "ignore-ident"],
+    collect: ["ignore", "ignore-selector", "ignore-class", "ignore-id", "ignore-ident"],
   });
 
   if (args.help || args._.length === 0) {
@@ -98,19 +166,43 @@ const parseArgsa = () => {
   // Output file is optional now - if not provided, output will go to stdout
   const outputFile = args.output || null;
 
-  // Handle prefix/suffix options with separate selector/ident values
+  // Handle the mode option with separate class/id/ident values, the other categories use --mode
+  const baseMode = args.mode as Mode;
+  let mode: TransformProps["mode"] = baseMode;
+  if (args["mode-class"] || args["mode-id"] || args["mode-ident"]) {
+    mode = {
+      classes: (args["mode-class"] || baseMode) as Mode,
+      ids: (args["mode-id"] || baseMode) as Mode,
+      idents: (args["mode-ident"] || baseMode) as Mode,
+      keyframes: baseMode,
+      layers: baseMode,
+      containers: baseMode,
+      counters: baseMode,
+      gridAreas: baseMode,
+      viewTransitions: baseMode,
+      customMedia: baseMode,
+      customSelectors: baseMode,
+      parts: baseMode,
+    };
+  }
+
+  // Handle prefix/suffix options with separate selector/class/id/ident values
   let prefix: string | PrefixSuffixOptions = args.prefix || "";
-  if (args["prefix-selector"] || args["prefix-ident"]) {
+  if (args["prefix-selector"] || args["prefix-class"] || args["prefix-id"] || args["prefix-ident"]) {
     prefix = {
       selectors: args["prefix-selector"] || args.prefix || "",
+      classes: args["prefix-class"] || args["prefix-selector"] || args.prefix || "",
+      ids: args["prefix-id"] || args["prefix-selector"] || args.prefix || "",
       idents: args["prefix-ident"] || args.prefix || "",
     };
   }
 
   let suffix: string | PrefixSuffixOptions = args.suffix || "";
-  if (args["suffix-selector"] || args["suffix-ident"]) {
+  if (args["suffix-selector"] || args["suffix-class"] || args["suffix-id"] || args["suffix-ident"]) {
     suffix = {
       selectors: args["suffix-selector"] || args.suffix || "",
+      classes: args["suffix-class"] || args["suffix-selector"] || args.suffix || "",
+      ids: args["suffix-id"] || args["suffix-selector"] || args.suffix || "",
       idents: args["suffix-ident"] || args.suffix || "",
     };
   }
@@ -119,13 +211,22 @@ const parseArgsa = () => {
   let ignorePatterns: TransformProps["ignorePatterns"] = undefined;
   const ignore = args.ignore as string[] | undefined;
   const ignoreSelector = args["ignore-selector"] as string[] | undefined;
+  const ignoreClass = args["ignore-class"] as string[] | undefined;
+  const ignoreId = args["ignore-id"] as string[] | undefined;
   const ignoreIdent = args["ignore-ident"] as string[] | undefined;
 
   if (ignore && ignore.length > 0) {
     ignorePatterns = ignore; // --ignore takes precedence and applies to both
-  } else if ((ignoreSelector && ignoreSelector.length > 0) || (ignoreIdent && ignoreIdent.length > 0)) {
+  } else if (
+    (ignoreSelector && ignoreSelector.length > 0) ||
+    (ignoreClass && ignoreClass.length > 0) ||
+    (ignoreId && ignoreId.length > 0) ||
+    (ignoreIdent && ignoreIdent.length > 0)
+  ) {
     ignorePatterns = {
       selectors: ignoreSelector && ignoreSelector.length > 0 ? ignoreSelector : undefined,
+      classes: ignoreClass && ignoreClass.length > 0 ? ignoreClass : undefined,
+      ids: ignoreId && ignoreId.length > 0 ? ignoreId : undefined,
       idents: ignoreIdent && ignoreIdent.length > 0 ? ignoreIdent : undefined,
     };
   }
@@ -133,30 +234,53 @@ const parseArgsa = () => {
   return {
     inputFile,
     outputFile,
-    mode: args.mode as "hash" | "minimal" | "debug",
+    mode,
+    template: args.template,
+    minimalOrder: parseChoice("minimal-order", args["minimal-order"], ["appearance", "frequency"]),
+    minimalTieBreak: parseChoice("minimal-tie-break", args["minimal-tie-break"], ["appearance", "alphabetical"]),
+    minimalAlphabet: args["minimal-alphabet"],
     debugSymbol: args["debug-symbol"],
     prefix,
     suffix,
-    seed: args.seed ? Number.parseInt(args.seed) : undefined,
+    seed: args.seed && /^-?\d+$/.test(args.seed) ? Number.parseInt(args.seed) : args.seed || undefined,
+    hashLength: args["hash-length"] ? Number.parseInt(args["hash-length"]) : undefined,
+    hashEncoding: parseChoice("hash-encoding", args["hash-encoding"], ["hex", "base36", "base52", "base62"]),
+    hashAlgorithm: parseChoice("hash-algorithm", args["hash-algorithm"], ["xxh32", "xxh64"]),
     minify: args.minify,
-    sourceMap: args["source-map"],
+    sourceMap: args["source-map"] || Boolean(args["input-source-map"]),
+    inputSourceMapFile: args["input-source-map"],
     conversionTablesFile: args["conversion-tables"],
     saveTablesFile: args["save-tables"],
     ignorePatterns,
+    renameClasses: args["rename-classes"],
+    renameIds: args["rename-ids"],
+    renameIdents: args["rename-idents"],
   };
 };
 
+/**
+ * Encodes a source map as a base64 data URL, to inline it in the CSS
+ */
+const toSourceMapDataUrl = (map: string) => {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(map)) {
+    binary += String.fromCharCode(byte);
+  }
+  return `data:application/json;base64,${btoa(binary)}`;
+};
+
 /**
  * Main function to run the CLI tool
  */
 const main = async () => {
   await initTransform();
-  
+
+  let css = "";
   try {
     const options = parseArgsa();
 
     // Read the input CSS file
-    const css = await Deno.readTextFile(options.inputFile);
+    css = await Deno.readTextFile(options.inputFile);
 
     // Read conversion tables file if provided
     let existingConversionTables = undefined;
@@ -171,16 +295,40 @@ const main = async () => {
       }
     }
 
+    // Read input source map file if provided
+    let inputSourceMap: string | undefined = undefined;
+    if (options.inputSourceMapFile) {
+      try {
+        inputSourceMap = await Deno.readTextFile(options.inputSourceMapFile);
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Error loading input source map: ${errorMessage}`);
+        Deno.exit(1);
+      }
+    }
+
     // Prepare transform options
     const transformOptions: TransformProps = {
       css,
+      filename: options.inputFile,
       mode: options.mode,
+      template: options.template,
+      minimalOrder: options.minimalOrder,
+      minimalTieBreak: options.minimalTieBreak,
+      minimalAlphabet: options.minimalAlphabet,
       debugSymbol: options.debugSymbol,
       prefix: options.prefix,
       suffix: options.suffix,
       seed: options.seed,
+      hashLength: options.hashLength,
+      hashEncoding: options.hashEncoding,
+      hashAlgorithm: options.hashAlgorithm,
       conversionTables: existingConversionTables,
       ignorePatterns: options.ignorePatterns,
+      renameClasses: options.renameClasses,
+      renameIds: options.renameIds,
+      renameIdents: options.renameIdents,
+      inputSourceMap,
       lightningcssOptions: {
         minify: options.minify,
         sourceMap: options.sourceMap,
@@ -193,8 +341,20 @@ const main = async () => {
 
     // Either save to a file or output to stdout
     if (options.outputFile) {
-      await Deno.writeTextFile(options.outputFile, result.css);
+      let outputCss = result.css;
+      if (result.map) {
+        // Save the source map next to the output file and link it
+        const mapFile = `${options.outputFile}.map`;
+        await Deno.writeTextFile(mapFile, result.map);
+        const mapFileName = mapFile.split(/[\\/]/).pop();
+        outputCss += `\n/*# sourceMappingURL=${mapFileName} */\n`;
+        console.log(`Source map written to ${mapFile}`);
+      }
+      await Deno.writeTextFile(options.outputFile, outputCss);
       console.log(`Output written to ${options.outputFile}`);
+    } else if (result.map) {
+      // Output directly to stdout with an inline source map
+      console.log(`${result.css}\n/*# sourceMappingURL=${toSourceMapDataUrl(result.map)} */`);
     } else {
       // Output directly to stdout
       console.log(result.css);
@@ -214,6 +374,15 @@ const main = async () => {
     }
 
   } catch (error: unknown) {
+    if (error instanceof CssSeasoningError) {
+      // Point to the broken CSS with a code frame
+      const location = [error.file, error.line, error.column].filter(Boolean).join(":");
+      console.error(`Error: ${error.message}\n    at ${location}`);
+      if (error.line) {
+        console.error(`\n${createCodeFrame(css, error.line, error.column)}\n`);
+      }
+      Deno.exit(1);
+    }
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error(`Error: ${errorMessage}`);
     Deno.exit(1);
@@ -1,11 +1,16 @@
-import type { ConversionTables } from "@/types.ts";
+import type { ConversionTables, NamingContext } from "@/types.ts";
 
 import {
+  assert,
   assertEquals,
+  assertMatch,
   assertNotEquals,
   assertObjectMatch,
+  assertThrows,
 } from "jsr:@std/assert";
-import { initTransform, transform } from "@/transformer.ts";
+import { CssSeasoningError } from "@/errors.ts";
+import { initTransform, transform, transformFiles } from "@/transformer.ts";
+import { numberToLetters } from "@/utils.ts";
 
 await initTransform();
 
@@ -28,7 +33,7 @@ Deno.test("transform - hash mode (default)", () => {
   assertEquals(typeof result.css, "string");
 
   // Conversion tables check
-  INTERNAL_assertConversionTable(result.conversionTables.selectors, 2);
+  INTERNAL_assertConversionTable(result.conversionTables.classes, 2);
   INTERNAL_assertConversionTable(result.conversionTables.idents, 2);
 
   // Consistent hashing check
@@ -64,7 +69,7 @@ Deno.test("transform - minimal mode", () => {
   // Check if using alphabetical naming
   INTERNAL_assertCss(result.css, expectedOutput);
 
-  INTERNAL_assertConversionTable(result.conversionTables.selectors, 2);
+  INTERNAL_assertConversionTable(result.conversionTables.classes, 2);
   INTERNAL_assertConversionTable(result.conversionTables.idents, 2);
 });
 
@@ -96,7 +101,7 @@ Deno.test("transform - debug mode", () => {
 
   // Check if new conversion tables are created
   INTERNAL_assertConversionTable(
-    result.conversionTables.selectors,
+    result.conversionTables.classes,
     1,
   );
   INTERNAL_assertConversionTable(
@@ -156,10 +161,11 @@ Deno.test("transform - custom seed in hash mode", () => {
 
 Deno.test("transform - preserves conversion tables", () => {
   const existingTables = {
-    selectors: {
+    classes: {
       "\\.existing": "\\.preserved-class",
       "\\.existing-2": "\\.preserved-class-2 \\#preserved-id",
     },
+    ids: {},
     idents: { "existing-var": "preserved-var" },
   } satisfies ConversionTables;
   const input = `
@@ -184,10 +190,10 @@ Deno.test("transform - preserves conversion tables", () => {
 
   // Check if existing mappings are preserved
   assertEquals(
-    result.conversionTables.selectors[
-      Object.keys(existingTables.selectors)[0]
+    result.conversionTables.classes[
+      Object.keys(existingTables.classes)[0]
     ],
-    Object.values(existingTables.selectors)[0],
+    Object.values(existingTables.classes)[0],
   );
   assertEquals(
     result.conversionTables.idents[
@@ -199,13 +205,17 @@ Deno.test("transform - preserves conversion tables", () => {
 
   // Check if new mappings are added
   INTERNAL_assertConversionTable(
-    result.conversionTables.selectors,
+    result.conversionTables.classes,
     3,
   );
   INTERNAL_assertConversionTable(
     result.conversionTables.idents,
     2,
   );
+
+  // Check that the given tables are copied, not mutated
+  assertEquals(Object.keys(existingTables.classes).length, 2);
+  assertEquals(Object.keys(existingTables.idents).length, 1);
 });
 
 Deno.test("transform - handles disabled pseudo-class", () => {
@@ -222,11 +232,12 @@ Deno.test("transform - handles disabled pseudo-class", () => {
     button:disabled:hover { cursor: not-allowed; }
   `;
   const expectedConversionTable: ConversionTables = {
-    selectors: {
+    classes: {
       "\\.button": "\\.a",
       "\\.form-control": "\\.b",
       "\\.helper": "\\.c",
     },
+    ids: {},
     idents: {},
   };
 
@@ -238,8 +249,12 @@ Deno.test("transform - handles disabled pseudo-class", () => {
 
   INTERNAL_assertCss(result.css, expectedOutput);
   assertObjectMatch(
-    result.conversionTables.selectors,
-    expectedConversionTable.selectors,
+    result.conversionTables.classes,
+    expectedConversionTable.classes,
+  );
+  assertObjectMatch(
+    result.conversionTables.ids,
+    expectedConversionTable.ids,
   );
   assertObjectMatch(
     result.conversionTables.idents,
@@ -272,7 +287,7 @@ Deno.test("transform - handles complex selectors", () => {
 
   // Check if the output is different but valid
   INTERNAL_assertCss(result.css, expectedOutput);
-  INTERNAL_assertConversionTable(result.conversionTables.selectors, 3);
+  INTERNAL_assertConversionTable(result.conversionTables.classes, 3);
   INTERNAL_assertConversionTable(result.conversionTables.idents, 0);
 });
 
@@ -286,13 +301,15 @@ Deno.test("transform - handles basic selectors", () => {
   const expectedOutput = `
     div { color: red; }
     #a { color: #00f; }
-    .b { color: green; }
+    .a { color: green; }
     * { box-sizing: border-box; }
   `;
   const expectedConversionTable: ConversionTables = {
-    selectors: {
+    classes: {
+      "\\.myClass": "\\.a",
+    },
+    ids: {
       "\\#myId": "\\#a",
-      "\\.myClass": "\\.b",
     },
     idents: {},
   };
@@ -306,8 +323,12 @@ Deno.test("transform - handles basic selectors", () => {
   INTERNAL_assertCss(result.css, expectedOutput);
 
   assertObjectMatch(
-    result.conversionTables.selectors,
-    expectedConversionTable.selectors,
+    result.conversionTables.classes,
+    expectedConversionTable.classes,
+  );
+  assertObjectMatch(
+    result.conversionTables.ids,
+    expectedConversionTable.ids,
   );
   assertObjectMatch(
     result.conversionTables.idents,
@@ -325,10 +346,11 @@ Deno.test("transform - handles first-child pseudo-class", () => {
     .b:first-child:hover { background: #eee; }
   `;
   const expectedConversionTable: ConversionTables = {
-    selectors: {
+    classes: {
       "\\.list-item": "\\.a",
       "\\.nested": "\\.b",
     },
+    ids: {},
     idents: {},
   };
 
@@ -340,8 +362,12 @@ Deno.test("transform - handles first-child pseudo-class", () => {
 
   INTERNAL_assertCss(result.css, expectedOutput);
   assertObjectMatch(
-    result.conversionTables.selectors,
-    expectedConversionTable.selectors,
+    result.conversionTables.classes,
+    expectedConversionTable.classes,
+  );
+  assertObjectMatch(
+    result.conversionTables.ids,
+    expectedConversionTable.ids,
   );
   assertObjectMatch(
     result.conversionTables.idents,
@@ -359,10 +385,11 @@ Deno.test("transform - handles last-child pseudo-class", () => {
     .b:last-child:hover { background: #eee; }
   `;
   const expectedConversionTable: ConversionTables = {
-    selectors: {
+    classes: {
       "\\.list-item": "\\.a",
       "\\.nested": "\\.b",
     },
+    ids: {},
     idents: {},
   };
 
@@ -374,8 +401,12 @@ Deno.test("transform - handles last-child pseudo-class", () => {
 
   INTERNAL_assertCss(result.css, expectedOutput);
   assertObjectMatch(
-    result.conversionTables.selectors,
-    expectedConversionTable.selectors,
+    result.conversionTables.classes,
+    expectedConversionTable.classes,
+  );
+  assertObjectMatch(
+    result.conversionTables.ids,
+    expectedConversionTable.ids,
   );
   assertObjectMatch(
     result.conversionTables.idents,
@@ -393,9 +424,10 @@ Deno.test("transform - handles nth-child pseudo-class", () => {
     .a:nth-child(3) { margin: 10px; }
   `;
   const expectedConversionTable: ConversionTables = {
-    selectors: {
+    classes: {
       "\\.item": "\\.a",
     },
+    ids: {},
     idents: {},
   };
 
@@ -407,8 +439,12 @@ Deno.test("transform - handles nth-child pseudo-class", () => {
 
   INTERNAL_assertCss(result.css, expectedOutput);
   assertObjectMatch(
-    result.conversionTables.selectors,
-    expectedConversionTable.selectors,
+    result.conversionTables.classes,
+    expectedConversionTable.classes,
+  );
+  assertObjectMatch(
+    result.conversionTables.ids,
+    expectedConversionTable.ids,
   );
   assertObjectMatch(
     result.conversionTables.idents,
@@ -430,13 +466,14 @@ Deno.test("transform - handles focus-visible pseudo-class", () => {
     .e:hover:focus-visible { transform: scale(1.02); }
   `;
   const expectedConversionTable: ConversionTables = {
-    selectors: {
+    classes: {
       "\\.button": "\\.a",
       "\\.link": "\\.b",
       "\\.disabled": "\\.c",
       "\\.input": "\\.d",
       "\\.card": "\\.e",
     },
+    ids: {},
     idents: {},
   };
 
@@ -448,8 +485,12 @@ Deno.test("transform - handles focus-visible pseudo-class", () => {
 
   INTERNAL_assertCss(result.css, expectedOutput);
   assertObjectMatch(
-    result.conversionTables.selectors,
-    expectedConversionTable.selectors,
+    result.conversionTables.classes,
+    expectedConversionTable.classes,
+  );
+  assertObjectMatch(
+    result.conversionTables.ids,
+    expectedConversionTable.ids,
   );
   assertObjectMatch(
     result.conversionTables.idents,
@@ -467,9 +508,10 @@ Deno.test("transform - handles nth-last-child pseudo-class", () => {
     .a:nth-last-child(2) { padding: 5px; }
   `;
   const expectedConversionTable: ConversionTables = {
-    selectors: {
+    classes: {
       "\\.item": "\\.a",
     },
+    ids: {},
     idents: {},
   };
 
@@ -481,8 +523,12 @@ Deno.test("transform - handles nth-last-child pseudo-class", () => {
 
   INTERNAL_assertCss(result.css, expectedOutput);
   assertObjectMatch(
-    result.conversionTables.selectors,
-    expectedConversionTable.selectors,
+    result.conversionTables.classes,
+    expectedConversionTable.classes,
+  );
+  assertObjectMatch(
+    result.conversionTables.ids,
+    expectedConversionTable.ids,
   );
   assertObjectMatch(
     result.conversionTables.idents,
@@ -504,7 +550,7 @@ Deno.test("transform - handles not, where, is, and root pseudo-classes", () => {
     :root { display: block; }
   `;
   const expectedConversionTable: ConversionTables = {
-    selectors: {
+    classes: {
       "\\.item": "\\.a",
       "\\.active": "\\.b",
       "\\.menu": "\\.c",
@@ -514,6 +560,7 @@ Deno.test("transform - handles not, where, is, and root pseudo-classes", () => {
       "\\.important": "\\.g",
       "\\.highlight": "\\.h",
     },
+    ids: {},
     idents: {},
   };
 
@@ -525,8 +572,12 @@ Deno.test("transform - handles not, where, is, and root pseudo-classes", () => {
 
   INTERNAL_assertCss(result.css, expectedOutput);
   assertObjectMatch(
-    result.conversionTables.selectors,
-    expectedConversionTable.selectors,
+    result.conversionTables.classes,
+    expectedConversionTable.classes,
+  );
+  assertObjectMatch(
+    result.conversionTables.ids,
+    expectedConversionTable.ids,
   );
   assertObjectMatch(
     result.conversionTables.idents,
@@ -548,12 +599,13 @@ Deno.test("transform - handles custom pseudo-classes", () => {
     .d::--hover-focus:hover:focus { outline: 2px solid red; }
   `;
   const expectedConversionTable: ConversionTables = {
-    selectors: {
+    classes: {
       "\\.button": "\\.a",
       "\\.input": "\\.b",
       "\\.card": "\\.c",
       "\\.element": "\\.d",
     },
+    ids: {},
     idents: {},
   };
 
@@ -565,8 +617,12 @@ Deno.test("transform - handles custom pseudo-classes", () => {
 
   INTERNAL_assertCss(result.css, expectedOutput);
   assertObjectMatch(
-    result.conversionTables.selectors,
-    expectedConversionTable.selectors,
+    result.conversionTables.classes,
+    expectedConversionTable.classes,
+  );
+  assertObjectMatch(
+    result.conversionTables.ids,
+    expectedConversionTable.ids,
   );
   assertObjectMatch(
     result.conversionTables.idents,
@@ -590,7 +646,7 @@ Deno.test("transform - handles focus-within pseudo-class", () => {
     .g:focus-within:not(.h) { outline: 2px solid red; }
   `;
   const expectedConversionTable: ConversionTables = {
-    selectors: {
+    classes: {
       "\\.form": "\\.a",
       "\\.nav-item": "\\.b",
       "\\.dropdown": "\\.c",
@@ -600,6 +656,7 @@ Deno.test("transform - handles focus-within pseudo-class", () => {
       "\\.nested": "\\.g",
       "\\.disabled": "\\.h",
     },
+    ids: {},
     idents: {},
   };
 
@@ -611,8 +668,12 @@ Deno.test("transform - handles focus-within pseudo-class", () => {
 
   INTERNAL_assertCss(result.css, expectedOutput);
   assertObjectMatch(
-    result.conversionTables.selectors,
-    expectedConversionTable.selectors,
+    result.conversionTables.classes,
+    expectedConversionTable.classes,
+  );
+  assertObjectMatch(
+    result.conversionTables.ids,
+    expectedConversionTable.ids,
   );
   assertObjectMatch(
     result.conversionTables.idents,
@@ -630,9 +691,10 @@ Deno.test("transform - handles host pseudo-class", () => {
     :host(.a) { font-weight: bold; }
   `;
   const expectedConversionTable: ConversionTables = {
-    selectors: {
+    classes: {
       "\\.classname": "\\.a",
     },
+    ids: {},
     idents: {},
   };
 
@@ -646,8 +708,12 @@ Deno.test("transform - handles host pseudo-class", () => {
 
   // Host selectors should be preserved
   assertObjectMatch(
-    result.conversionTables.selectors,
-    expectedConversionTable.selectors,
+    result.conversionTables.classes,
+    expectedConversionTable.classes,
+  );
+  assertObjectMatch(
+    result.conversionTables.ids,
+    expectedConversionTable.ids,
   );
   assertObjectMatch(
     result.conversionTables.idents,
@@ -665,7 +731,8 @@ Deno.test("transform - handles attribute selectors", () => {
     [data-role="button"] { cursor: pointer; }
   `;
   const expectedConversionTable: ConversionTables = {
-    selectors: {},
+    classes: {},
+    ids: {},
     idents: {},
   };
 
@@ -679,8 +746,12 @@ Deno.test("transform - handles attribute selectors", () => {
 
   // Attribute selectors should be preserved
   assertObjectMatch(
-    result.conversionTables.selectors,
-    expectedConversionTable.selectors,
+    result.conversionTables.classes,
+    expectedConversionTable.classes,
+  );
+  assertObjectMatch(
+    result.conversionTables.ids,
+    expectedConversionTable.ids,
   );
   assertObjectMatch(
     result.conversionTables.idents,
@@ -698,12 +769,13 @@ Deno.test("transform - handles combinators", () => {
     .c ~ .d { padding: 5px; }
   `;
   const expectedConversionTable: ConversionTables = {
-    selectors: {
+    classes: {
       "\\.parent": "\\.a",
       "\\.child": "\\.b",
       "\\.sibling": "\\.c",
       "\\.next-sibling": "\\.d",
     },
+    ids: {},
     idents: {},
   };
 
@@ -717,8 +789,12 @@ Deno.test("transform - handles combinators", () => {
 
   // Each class selector should be converted
   assertObjectMatch(
-    result.conversionTables.selectors,
-    expectedConversionTable.selectors,
+    result.conversionTables.classes,
+    expectedConversionTable.classes,
+  );
+  assertObjectMatch(
+    result.conversionTables.ids,
+    expectedConversionTable.ids,
   );
   assertObjectMatch(
     result.conversionTables.idents,
@@ -738,11 +814,12 @@ Deno.test("transform - handles multiple complex selectors", () => {
     }
   `;
   const expectedConversionTable: ConversionTables = {
-    selectors: {
+    classes: {
       "\\.complex": "\\.a",
       "\\.simple": "\\.b",
       "\\.advanced": "\\.c",
     },
+    ids: {},
     idents: {},
   };
 
@@ -756,8 +833,12 @@ Deno.test("transform - handles multiple complex selectors", () => {
 
   // Should convert all three class selectors
   assertObjectMatch(
-    result.conversionTables.selectors,
-    expectedConversionTable.selectors,
+    result.conversionTables.classes,
+    expectedConversionTable.classes,
+  );
+  assertObjectMatch(
+    result.conversionTables.ids,
+    expectedConversionTable.ids,
   );
   assertObjectMatch(
     result.conversionTables.idents,
@@ -779,7 +860,8 @@ Deno.test("transform - handles custom properties in :root", () => {
     }
   `;
   const expectedConversionTable: ConversionTables = {
-    selectors: {},
+    classes: {},
+    ids: {},
     idents: {
       "main-color": "a",
       "accent-color": "b",
@@ -796,8 +878,12 @@ Deno.test("transform - handles custom properties in :root", () => {
 
   // Should convert both custom properties
   assertObjectMatch(
-    result.conversionTables.selectors,
-    expectedConversionTable.selectors,
+    result.conversionTables.classes,
+    expectedConversionTable.classes,
+  );
+  assertObjectMatch(
+    result.conversionTables.ids,
+    expectedConversionTable.ids,
   );
   assertObjectMatch(
     result.conversionTables.idents,
@@ -825,7 +911,7 @@ Deno.test("transform - ignores selector patterns", () => {
     }
     .a { color: var(--a); }
     .btn-primary { color: var(--b); }
-    #b { background: var(--c); }
+    #a { background: var(--c); }
   `;
 
   // Test ignoring selector patterns
@@ -842,7 +928,7 @@ Deno.test("transform - ignores selector patterns", () => {
 
   // Verify that btn-primary is not in the conversion table
   assertEquals(
-    Object.keys(result.conversionTables.selectors).some((key) =>
+    Object.keys(result.conversionTables.classes).some((key) =>
       key.includes("btn-primary")
     ),
     false,
@@ -869,7 +955,7 @@ Deno.test("transform - ignores ident patterns", () => {
     }
     .a { color: var(--a); }
     .b { color: var(--theme-color); }
-    #c { background: var(--b); }
+    #a { background: var(--b); }
   `;
 
   const result = transform({
@@ -912,7 +998,7 @@ Deno.test("transform - ignores both selector and ident patterns", () => {
     }
     .a { color: var(--a); }
     .btn-primary { color: var(--theme-color); }
-    #b { background: var(--b); }
+    #a { background: var(--b); }
   `;
 
   const result = transform({
@@ -929,7 +1015,7 @@ Deno.test("transform - ignores both selector and ident patterns", () => {
 
   // Verify that neither btn-primary nor theme-color are in their respective conversion tables
   assertEquals(
-    Object.keys(result.conversionTables.selectors).some((key) =>
+    Object.keys(result.conversionTables.classes).some((key) =>
       key.includes("btn-primary")
     ),
     false,
@@ -979,13 +1065,13 @@ Deno.test("transform - ignores patterns using RegExp objects", () => {
 
   // Verify which items should be in the conversion tables and which should not
   assertEquals(
-    Object.keys(result.conversionTables.selectors).some((key) =>
+    Object.keys(result.conversionTables.classes).some((key) =>
       key.includes("btn-primary")
     ),
     false,
   );
   assertEquals(
-    Object.keys(result.conversionTables.selectors).some((key) =>
+    Object.keys(result.conversionTables.classes).some((key) =>
       key.includes("header")
     ),
     false,
@@ -1049,7 +1135,7 @@ Deno.test("transform - ignores patterns with mixed string and RegExp", () => {
     false,
   );
   assertEquals(
-    Object.keys(result.conversionTables.selectors).some((key) =>
+    Object.keys(result.conversionTables.classes).some((key) =>
       key.includes("btn-primary")
     ),
     false,
@@ -1321,6 +1407,1781 @@ Deno.test("transform - handles nesting selector", () => {
   INTERNAL_assertCss(result.css, expectedOutput);
 });
 
+Deno.test("transform - renames keyframes and animation references", () => {
+  const input = `
+    @keyframes fade-in { from { opacity: 0; } }
+    @keyframes slide-up { to { transform: translateY(0); } }
+    .modal { animation: fade-in 1s; }
+    .toast { animation-name: slide-up, fade-in; }
+  `;
+  const expectedOutput = `
+    @keyframes a { from { opacity: 0; } }
+    @keyframes b { to { transform: translateY(0); } }
+    .a { animation: 1s a; }
+    .b { animation-name: b, a; }
+  `;
+  const expectedConversionTable: ConversionTables = {
+    classes: {
+      "\\.modal": "\\.a",
+      "\\.toast": "\\.b",
+    },
+    ids: {},
+    idents: {},
+    keyframes: {
+      "fade-in": "a",
+      "slide-up": "b",
+    },
+  };
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  assertObjectMatch(
+    result.conversionTables.classes,
+    expectedConversionTable.classes,
+  );
+  assertObjectMatch(
+    result.conversionTables.ids,
+    expectedConversionTable.ids,
+  );
+  assertEquals(
+    result.conversionTables.keyframes,
+    expectedConversionTable.keyframes,
+  );
+});
+
+Deno.test("transform - ignores keyframes patterns", () => {
+  const input = `
+    @keyframes fade-in { from { opacity: 0; } }
+    @keyframes vendor-spin { to { rotate: 1turn; } }
+    .modal { animation-name: fade-in, vendor-spin; }
+  `;
+  const expectedOutput = `
+    @keyframes a { from { opacity: 0; } }
+    @keyframes vendor-spin { to { rotate: 1turn; } }
+    .a { animation-name: a, vendor-spin; }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    ignorePatterns: {
+      keyframes: ["^vendor-"],
+    },
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  INTERNAL_assertConversionTable(result.conversionTables.keyframes, 1);
+});
+
+Deno.test("transform - preserves keyframes conversion tables", () => {
+  const input = `
+    .modal { animation: fade-in 1s; }
+    @keyframes fade-in { from { opacity: 0; } }
+    @keyframes slide-up { to { opacity: 1; } }
+  `;
+  const expectedOutput = `
+    .a { animation: 1s appear; }
+    @keyframes appear { from { opacity: 0; } }
+    @keyframes a { to { opacity: 1; } }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    conversionTables: {
+      keyframes: { "fade-in": "appear" },
+    },
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  assertObjectMatch(result.conversionTables.keyframes, {
+    "fade-in": "appear",
+    "slide-up": "a",
+  });
+});
+
+Deno.test("transform - renames layer names", () => {
+  const input = `
+    @import url(reset.css) layer(reset);
+    @import url(vendor.css) layer;
+    @layer reset, components.button;
+    @layer components {
+      @layer button { .btn { color: red; } }
+    }
+    @layer { .anonymous { color: blue; } }
+  `;
+  const expectedOutput = `
+    @import "reset.css" layer(a);
+    @import "vendor.css" layer;
+    @layer b.c;
+    @layer b {
+      @layer c { .a { color: red; } }
+    }
+    @layer { .b { color: #00f; } }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  assertEquals(result.conversionTables.layers, {
+    "reset": "a",
+    "components": "b",
+    "button": "c",
+  });
+});
+
+Deno.test("transform - ignores layer patterns", () => {
+  const input = `
+    @layer theme, vendor.bootstrap;
+    @layer theme { .card { color: red; } }
+  `;
+  const expectedOutput = `
+    @layer a { .a { color: red; } }
+    @layer vendor.b;
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    ignorePatterns: {
+      layers: ["^vendor$"],
+    },
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  INTERNAL_assertConversionTable(result.conversionTables.layers, 2);
+});
+
+Deno.test("transform - renames container names", () => {
+  const input = `
+    .card { container-name: card-container sidebar; }
+    .layout { container: layout-container / inline-size; }
+    @container card-container (min-width: 30rem) { .title { color: red; } }
+    @container (min-width: 10rem) { .title { color: blue; } }
+    .reset { container-name: none; }
+  `;
+  const expectedOutput = `
+    .a { container-name: a b; }
+    .b { container: c / inline-size; }
+    @container a (width >= 30rem) { .c { color: red; } }
+    @container (width >= 10rem) { .c { color: #00f; } }
+    .d { container-name: none; }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  assertEquals(result.conversionTables.containers, {
+    "card-container": "a",
+    "sidebar": "b",
+    "layout-container": "c",
+  });
+});
+
+Deno.test("transform - ignores container patterns", () => {
+  const input = `
+    .card { container-name: card lib-panel; }
+    @container lib-panel (min-width: 30rem) { .title { color: red; } }
+  `;
+  const expectedOutput = `
+    .a { container-name: a lib-panel; }
+    @container lib-panel (width >= 30rem) { .b { color: red; } }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    ignorePatterns: {
+      containers: ["^lib-"],
+    },
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  INTERNAL_assertConversionTable(result.conversionTables.containers, 1);
+});
+
+Deno.test("transform - renames counter names", () => {
+  const input = `
+    .list { counter-reset: section-counter 1 item-counter list-item; }
+    .list-item { counter-increment: section-counter; counter-set: item-counter 3; }
+    .list-item::before { content: counter(section-counter) "." counters(item-counter, ".", upper-roman); }
+  `;
+  const expectedOutput = `
+    .a { counter-reset: a 1 b list-item; }
+    .b { counter-increment: a; counter-set: b 3; }
+    .b:before { content: counter(a) "." counters(b, ".", upper-roman); }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  assertEquals(result.conversionTables.counters, {
+    "section-counter": "a",
+    "item-counter": "b",
+  });
+});
+
+Deno.test("transform - renames @counter-style names", () => {
+  const input = `
+    ul { list-style: thumbs-style inside; }
+    ol { list-style-type: decimal; }
+    li::before { content: counter(list-item, thumbs-style); }
+    @counter-style thumbs-style { system: extends fancy-style; fallback: fancy-style; }
+    @counter-style fancy-style { system: cyclic; symbols: "*"; }
+  `;
+  const expectedOutput = `
+    ul { list-style: inside a; }
+    ol { list-style-type: decimal; }
+    li:before { content: counter(list-item, a); }
+    @counter-style a { system: extends b; fallback: b; }
+    @counter-style b { system: cyclic; symbols: "*"; }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  INTERNAL_assertConversionTable(result.conversionTables.counters, 2);
+});
+
+Deno.test("transform - preserves counter conversion tables", () => {
+  const input = `
+    .list { counter-reset: section-counter chapter-counter; }
+    .list::before { content: counter(section-counter); }
+  `;
+  const expectedOutput = `
+    .a { counter-reset: s a; }
+    .a:before { content: counter(s); }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    conversionTables: {
+      counters: { "section-counter": "s" },
+    },
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  assertObjectMatch(result.conversionTables.counters, {
+    "section-counter": "s",
+    "chapter-counter": "a",
+  });
+});
+
+Deno.test("transform - renames grid areas and named lines when enabled", () => {
+  const input = `
+    .layout {
+      grid-template-areas: "header header" "sidebar content" ". content";
+      grid-template-columns: [sidebar-start] 1fr [sidebar-end content-start] 3fr [content-end];
+    }
+    .header { grid-area: header; }
+    .sidebar { grid-row: sidebar-start / sidebar-end; }
+    .content { grid-column-start: content; }
+  `;
+  const expectedOutput = `
+    .a {
+      grid-template-columns: [b-start] 1fr [b-end c-start] 3fr [c-end];
+      grid-template-areas: "a a" "b c" ". c";
+    }
+    .b { grid-area: a; }
+    .c { grid-row: b-start / b-end; }
+    .d { grid-column-start: c; }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    renameGridAreas: true,
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  assertEquals(result.conversionTables.gridAreas, {
+    "header": "a",
+    "sidebar": "b",
+    "content": "c",
+  });
+});
+
+Deno.test("transform - leaves grid areas untouched by default", () => {
+  const input = `
+    .layout { grid-template-areas: "header" "content"; }
+    .header { grid-area: header; }
+  `;
+  const expectedOutput = `
+    .a { grid-template-areas: "header" "content"; }
+    .b { grid-area: header; }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  INTERNAL_assertConversionTable(result.conversionTables.gridAreas, 0);
+});
+
+Deno.test("transform - renames view transition names and classes", () => {
+  const input = `
+    .hero-image { view-transition-name: hero-image; view-transition-class: card-item; }
+    .detail { view-transition-name: none; view-transition-group: hero-image; }
+    ::view-transition-group(hero-image) { animation-duration: 1s; }
+    ::view-transition-old(*.card-item) { opacity: 0; }
+    ::view-transition-new(hero-image.card-item) { opacity: 1; }
+  `;
+  const expectedOutput = `
+    .a { view-transition-name: a; view-transition-class: b; }
+    .b { view-transition-name: none; view-transition-group: a; }
+    ::view-transition-group(a) { animation-duration: 1s; }
+    ::view-transition-old(*.b) { opacity: 0; }
+    ::view-transition-new(a.b) { opacity: 1; }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  assertEquals(result.conversionTables.viewTransitions, {
+    "hero-image": "a",
+    "card-item": "b",
+  });
+});
+
+Deno.test("transform - ignores view transition patterns", () => {
+  const input = `
+    .hero { view-transition-name: page-root; }
+    .card { view-transition-name: card; }
+    ::view-transition-group(page-root) { animation: none; }
+  `;
+  const expectedOutput = `
+    .a { view-transition-name: page-root; }
+    .b { view-transition-name: a; }
+    ::view-transition-group(page-root) { animation: none; }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    ignorePatterns: {
+      viewTransitions: ["^page-"],
+    },
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  INTERNAL_assertConversionTable(result.conversionTables.viewTransitions, 1);
+});
+
+Deno.test("transform - renames custom media and custom selector names", () => {
+  const input = `
+    @custom-media --tablet (min-width: 768px);
+    @media (--tablet) { .title { color: red; } }
+    @custom-selector :--heading h1, .title, #main;
+    :--heading { margin: 0; }
+    .box { color: var(--tablet); }
+  `;
+  const expectedOutput = `
+    @custom-media --a (min-width: 768px);
+    @media (--a) { .a { color: red; } }
+    @custom-selector :--a h1, .a, #a;
+    :--a { margin: 0; }
+    .b { color: var(--a); }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  assertEquals(result.conversionTables.customMedia, { "tablet": "a" });
+  assertEquals(result.conversionTables.customSelectors, { "heading": "a" });
+  assertEquals(result.conversionTables.idents, { "tablet": "a" });
+});
+
+Deno.test("transform - keeps the spaces of custom selector definitions", () => {
+  const input = "@custom-selector :--btn .button, #main > .x;";
+
+  const minified = transform({ css: input, mode: "minimal" });
+  assertEquals(minified.css, "@custom-selector :--a .a,#a>.b;");
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    lightningcssOptions: { minify: false },
+  });
+  assertEquals(result.css, "@custom-selector :--a .a, #a> .b;\n");
+});
+
+Deno.test("transform - ignores custom media and custom selector patterns", () => {
+  const input = `
+    @custom-media --mq-tablet (min-width: 768px);
+    @custom-media --wide (min-width: 1200px);
+    @media (--mq-tablet) and (--wide) { .a { color: red; } }
+    @custom-selector :--keep-heading h1;
+    :--keep-heading { margin: 0; }
+  `;
+  const expectedOutput = `
+    @custom-media --mq-tablet (min-width: 768px);
+    @custom-media --a (min-width: 1200px);
+    @media (--mq-tablet) and (--a) { .a { color: red; } }
+    @custom-selector :--keep-heading h1;
+    :--keep-heading { margin: 0; }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    ignorePatterns: {
+      customMedia: ["^mq-"],
+      customSelectors: ["^keep-"],
+    },
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  INTERNAL_assertConversionTable(result.conversionTables.customMedia, 1);
+  INTERNAL_assertConversionTable(result.conversionTables.customSelectors, 0);
+});
+
+Deno.test("transform - renames selectors inside @supports selector()", () => {
+  const input = `
+    @import "print.css" layer(print) supports(selector(.card));
+    @supports selector(.card:has(.title)) and (not selector(#main > .icon-x)) {
+      .card { color: red; }
+    }
+    @supports (display: grid) { .title { display: grid; } }
+  `;
+  const expectedOutput = `
+    @import "print.css" layer(a) supports(selector(.a));
+    @supports selector(.a:has(.b)) and (not selector(#a > .icon-x)) {
+      .a { color: red; }
+    }
+    @supports (display: grid) { .b { display: grid; } }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    ignorePatterns: {
+      selectors: ["^icon-"],
+    },
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  INTERNAL_assertConversionTable(result.conversionTables.classes, 2);
+  INTERNAL_assertConversionTable(result.conversionTables.ids, 1);
+});
+
+Deno.test("transform - renames custom properties in @container style() queries", () => {
+  const input = `
+    .card { --theme: dark; --accent: red; }
+    @container card style(--theme: dark) and style(--accent: var(--theme)) {
+      .title { color: var(--accent); }
+    }
+  `;
+  const expectedOutput = `
+    .a { --a: dark; --b: red; }
+    @container a style(--a: dark) and style(--b: var(--a)) {
+      .b { color: var(--b); }
+    }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  assertEquals(result.conversionTables.idents, { "theme": "a", "accent": "b" });
+});
+
+Deno.test("transform - renames custom properties registered with @property", () => {
+  const input = `
+    @property --angle { syntax: "<angle>"; inherits: false; initial-value: 0deg; }
+    .spinner { --angle: 90deg; transform: rotate(var(--angle)); }
+  `;
+  const expectedOutput = `
+    @property --a { syntax: "<angle>"; inherits: false; initial-value: 0deg; }
+    .a { --a: 90deg; transform: rotate(var(--a)); }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  assertEquals(result.conversionTables.idents, { "angle": "a" });
+});
+
+Deno.test("transform - renames env() and var() in at-rule preludes with the ident table", () => {
+  const input = `
+    .layout { --gap: 1rem; }
+    @custom-media --wide (min-width: var(--gap)) or (--tablet);
+    @media (min-width: env(--safe-width, var(--gap))) and (--wide) {
+      .title { color: red; }
+    }
+    @supports (--gap: 1rem) and (margin: var(--gap, 2px)) {
+      .title { margin: var(--gap); }
+    }
+  `;
+  const expectedOutput = `
+    .a { --a: 1rem; }
+    @custom-media --a (min-width: var(--a)) or (--b);
+    @media (width >= env(--b, var(--a))) and (--a) {
+      .b { color: red; }
+    }
+    @supports (--a: 1rem) and (margin: var(--a,2px)) {
+      .b { margin: var(--a); }
+    }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  assertEquals(result.conversionTables.idents, {
+    "gap": "a",
+    "safe-width": "b",
+  });
+  assertEquals(result.conversionTables.customMedia, {
+    "wide": "a",
+    "tablet": "b",
+  });
+});
+
+Deno.test("transform - renames @scope roots, limits and body selectors", () => {
+  const input = `
+    @scope (.card, #main) to (:scope > .card__content) {
+      .title { color: red; }
+      :scope { padding: 1rem; }
+      :scope:has(.icon) > .title { gap: 1rem; }
+      @scope (.media) to (.media-body) {
+        img { border: 0; }
+      }
+    }
+    @scope { .inline { color: blue; } }
+  `;
+  const expectedOutput = `
+    @scope (.a, #a) to (:scope > .b) {
+      .c { color: red; }
+      :scope { padding: 1rem; }
+      :scope:has(.d) > .c { gap: 1rem; }
+      @scope (.e) to (.f) {
+        img { border: 0; }
+      }
+    }
+    @scope { .g { color: #00f; } }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  assertEquals(result.conversionTables.classes, {
+    "\\.card": "\\.a",
+    "\\.card__content": "\\.b",
+    "\\.title": "\\.c",
+    "\\.icon": "\\.d",
+    "\\.media": "\\.e",
+    "\\.media-body": "\\.f",
+    "\\.inline": "\\.g",
+  });
+  assertEquals(result.conversionTables.ids, {
+    "\\#main": "\\#a",
+  });
+});
+
+Deno.test("transform - ignores selector patterns in @scope preludes", () => {
+  const input = `
+    @scope (.card) to (.ad-slot) { .title { color: red; } }
+  `;
+  const expectedOutput = `
+    @scope (.a) to (.ad-slot) { .b { color: red; } }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    ignorePatterns: {
+      selectors: ["^ad-"],
+    },
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  INTERNAL_assertConversionTable(result.conversionTables.classes, 2);
+});
+
+Deno.test("transform - renames selectors inside ::slotted()", () => {
+  const input = `
+    ::slotted(.item) { color: red; }
+    ::slotted(#main.item) { color: blue; }
+    ::part(label) { color: green; }
+  `;
+  const expectedOutput = `
+    ::slotted(.a) { color: red; }
+    ::slotted(#a.a) { color: #00f; }
+    ::part(label) { color: green; }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  assertEquals(result.conversionTables.classes, {
+    "\\.item": "\\.a",
+  });
+  assertEquals(result.conversionTables.ids, {
+    "\\#main": "\\#a",
+  });
+  assertEquals(result.conversionTables.parts, {});
+});
+
+Deno.test("transform - renames ::part() names when enabled", () => {
+  const input = `
+    my-button::part(label) { color: red; }
+    my-button::part(label icon):hover { color: blue; }
+    my-button::part(theme-root) { color: green; }
+  `;
+  const expectedOutput = `
+    my-button::part(a) { color: red; }
+    my-button::part(a b):hover { color: #00f; }
+    my-button::part(theme-root) { color: green; }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    renameParts: true,
+    ignorePatterns: {
+      parts: ["^theme-"],
+    },
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  assertEquals(result.conversionTables.parts, { "label": "a", "icon": "b" });
+});
+
+Deno.test("transform - renames selectors nested in functional pseudo-classes and pseudo-elements", () => {
+  const input = `
+    :host-context(.theme .dark) .button { color: red; }
+    li:nth-child(2n of .item) { color: green; }
+    ::cue(.speaker) { color: gray; }
+    .toggle:state(checked):dir(rtl):lang(en) { color: red; }
+    input::-moz-focus-inner, ::highlight(search) { color: red; }
+  `;
+  const expectedOutput = `
+    :host-context(.a .b) .c { color: red; }
+    li:nth-child(2n of .d) { color: green; }
+    ::cue(.e) { color: gray; }
+    .f:state(checked):dir(rtl):lang(en) { color: red; }
+    input::-moz-focus-inner, ::highlight(search) { color: red; }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    strict: true,
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, expectedOutput);
+  INTERNAL_assertConversionTable(result.conversionTables.classes, 6);
+});
+
+Deno.test("transform - uses compound selectors of preloaded tables inside :nth-child() and :host()", () => {
+  const result = transform({
+    css: "li:nth-child(2n of .item) { color: red; } :host(.item) { gap: 0; }",
+    mode: "minimal",
+    conversionTables: { classes: { "\\.item": "\\.x\\.y" } },
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(
+    result.css,
+    "li:nth-child(2n of .x.y) { color: red; } :host(.x.y) { gap: 0; }",
+  );
+});
+
+Deno.test("transform - throws on unknown pseudo-classes and pseudo-elements in strict mode", () => {
+  assertThrows(
+    () =>
+      transform({
+        css: ".button:unknown-state { color: red; }",
+        mode: "minimal",
+        strict: true,
+      }),
+    Error,
+    'Unhandled pseudo-class: unknown-state in selector ".button:unknown-state".',
+  );
+  assertThrows(
+    () =>
+      transform({
+        css: ".button::unknown-part { color: red; }",
+        mode: "minimal",
+        strict: true,
+      }),
+    Error,
+    "Unhandled pseudo-element: unknown-part",
+  );
+
+  // Unknown names are kept as is without strict mode
+  const result = transform({
+    css: ".button:unknown-state { color: red; }",
+    mode: "minimal",
+  });
+  INTERNAL_assertCss(result.css, ".a:unknown-state{color:red}");
+});
+
+Deno.test("transform - reports warnings", () => {
+  const input = `.button { color: var(--keep-color); }
+  .card:unknown-state { --keep-color: red; }
+  .icon-close { color: blue; }
+  @media (min-width: foo) { .title { color: green; } }
+  `;
+  const reportedCodes: string[] = [];
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    ignorePatterns: {
+      selectors: ["^icon-"],
+      idents: ["^keep-"],
+    },
+    conversionTables: {
+      classes: { "\\.link": "\\.z", "\\.nav": "\\.z" },
+      idents: {},
+    },
+    onWarning: (warning) => reportedCodes.push(warning.code),
+    lightningcssOptions: { minify: false, errorRecovery: true },
+  });
+
+  assertEquals(result.warnings, [
+    {
+      code: "ignored-name",
+      message:
+        '"keep-color" matches an ignore pattern of idents, it is kept as is.',
+      ident: "keep-color",
+      line: 1,
+      column: 1,
+    },
+    {
+      code: "unhandled-selector",
+      message:
+        'Unhandled pseudo-class: unknown-state in selector ".card:unknown-state".',
+      selector: ".card:unknown-state",
+      line: 2,
+      column: 3,
+    },
+    {
+      code: "ignored-name",
+      message:
+        '".icon-close" matches an ignore pattern of classes, it is kept as is.',
+      selector: ".icon-close",
+      line: 3,
+      column: 3,
+    },
+    {
+      code: "lightningcss",
+      message:
+        "'unknown-state' is not recognized as a valid pseudo-class. Did you mean '::unknown-state' (pseudo-element) or is this a typo?",
+      line: 2,
+      column: 9,
+    },
+    {
+      code: "lightningcss",
+      message: "Invalid media query",
+      line: 4,
+      column: 25,
+    },
+    {
+      code: "table-conflict",
+      message:
+        '"\\.link", "\\.nav" are all converted to "\\.z" in the classes table.',
+      selector: "\\.z",
+    },
+  ]);
+  assertEquals(
+    reportedCodes,
+    result.warnings.map((warning) => warning.code),
+  );
+});
+
+Deno.test("transform - throws CssSeasoningError with the source location", () => {
+  const input = `.button { color: red; }
+.card { color: blue; ]
+.title { color: green; }`;
+
+  const error = assertThrows(
+    () => transform({ css: input, filename: "components/card.css" }),
+    CssSeasoningError,
+    "Invalid empty selector",
+  );
+
+  assertEquals(error.file, "components/card.css");
+  assertEquals(error.line, 2);
+  assertEquals(error.column, 22);
+  assertEquals(error.snippet, ".card { color: blue; ]");
+});
+
+Deno.test("transform - locates strict mode errors at their rule", () => {
+  const input = `.button { color: red; }
+  .card:unknown-state { color: blue; }`;
+
+  const error = assertThrows(
+    () =>
+      transform({
+        css: input,
+        filename: "card.css",
+        mode: "minimal",
+        strict: true,
+      }),
+    CssSeasoningError,
+    "Disable the `strict` option",
+  );
+
+  assertEquals(error.file, "card.css");
+  assertEquals(error.line, 2);
+  assertEquals(error.column, 3);
+  assertEquals(error.snippet, "  .card:unknown-state { color: blue; }");
+});
+
+Deno.test("transform - returns no source map by default", () => {
+  const result = transform({ css: ".button { color: red; }" });
+
+  assertEquals(result.map, undefined);
+});
+
+Deno.test("transform - returns the source map as a JSON string", () => {
+  const result = transform({
+    css: ".button { color: red; }",
+    filename: "button.css",
+    lightningcssOptions: { minify: true, sourceMap: true },
+  });
+
+  const map = JSON.parse(result.map!);
+  assertEquals(map.version, 3);
+  assertEquals(map.sources, ["button.css"]);
+});
+
+Deno.test("transform - chains the input source map", () => {
+  const css = ".button { color: red; }\n.card { color: blue; }";
+  const inputSourceMap = {
+    version: 3,
+    sources: ["button.scss"],
+    names: [],
+    mappings: "AAAA;AACA",
+    sourcesContent: [css],
+  };
+
+  const result = transform({ css, filename: "button.css", inputSourceMap });
+
+  const map = JSON.parse(result.map!);
+  assertEquals(map.sources, ["button.css", "button.scss"]);
+  // The first mapping points to the second source, ie. button.scss
+  assert(map.mappings.startsWith("AC"));
+
+  // A JSON string works the same
+  assertEquals(
+    transform({
+      css,
+      filename: "button.css",
+      inputSourceMap: JSON.stringify(inputSourceMap),
+    }).map,
+    result.map,
+  );
+});
+
+Deno.test("transformFiles - shares the conversion tables between files", () => {
+  const result = transformFiles({
+    files: [
+      { filename: "home.css", css: ".button { color: red; } .hero {}" },
+      {
+        filename: "about.css",
+        css: ".button { color: blue; } .card { margin: 0; }",
+      },
+    ],
+    mode: "minimal",
+  });
+
+  assertEquals(result.files.map(({ filename }) => filename), [
+    "home.css",
+    "about.css",
+  ]);
+  INTERNAL_assertCss(result.files[0].css, ".a{color:red}");
+  INTERNAL_assertCss(result.files[1].css, ".a{color:#00f}.c{margin:0}");
+  assertEquals(result.conversionTables.classes, {
+    "\\.button": "\\.a",
+    "\\.hero": "\\.b",
+    "\\.card": "\\.c",
+  });
+});
+
+Deno.test("transformFiles - keeps preloaded tables and reports warnings per file", () => {
+  const reported: [string, string | undefined][] = [];
+  const result = transformFiles({
+    files: [
+      { filename: "home.css", css: ".button { color: red; }" },
+      { filename: "about.css", css: ".card:unknown-state { color: blue; }" },
+    ],
+    mode: "minimal",
+    conversionTables: {
+      classes: { "\\.button": "\\.x", "\\.link": "\\.x" },
+    },
+    onWarning: (warning, filename) => reported.push([warning.code, filename]),
+  });
+
+  INTERNAL_assertCss(result.files[0].css, ".x{color:red}");
+  assertEquals(result.files[0].warnings, []);
+  assertEquals(
+    result.files[1].warnings.map(({ code }) => code),
+    ["unhandled-selector", "lightningcss"],
+  );
+  assertEquals(
+    result.warnings.map(({ code }) => code),
+    ["table-conflict"],
+  );
+  assertEquals(reported, [
+    ["unhandled-selector", "about.css"],
+    ["lightningcss", "about.css"],
+    ["table-conflict", undefined],
+  ]);
+});
+
+Deno.test("transformFiles - locates errors in the failing file", () => {
+  const error = assertThrows(
+    () =>
+      transformFiles({
+        files: [
+          { filename: "home.css", css: ".button { color: red; }" },
+          { filename: "about.css", css: ".card { color: blue; ]" },
+        ],
+      }),
+    CssSeasoningError,
+  );
+
+  assertEquals(error.file, "about.css");
+});
+
+Deno.test("transform - minimal mode skips the values of a saved table", () => {
+  const firstBuild = transform({
+    css: ".button { color: red; } .card { color: blue; }",
+    mode: "minimal",
+    lightningcssOptions: { minify: false },
+  });
+  const savedTables = JSON.parse(JSON.stringify(firstBuild.conversionTables));
+
+  const secondBuild = transform({
+    css:
+      ".title { color: green; } .button { color: red; } .link { margin: 0; }",
+    mode: "minimal",
+    conversionTables: savedTables,
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(
+    secondBuild.css,
+    ".c { color: green; } .a { color: red; } .d { margin: 0; }",
+  );
+  assertEquals(secondBuild.conversionTables.classes, {
+    "\\.button": "\\.a",
+    "\\.card": "\\.b",
+    "\\.title": "\\.c",
+    "\\.link": "\\.d",
+  });
+  assertEquals(secondBuild.warnings, []);
+});
+
+Deno.test("transform - minimal mode skips preloaded values of every category", () => {
+  const result = transform({
+    css: `:root { --main: red; --accent: blue; }
+    @keyframes fade { from { opacity: 0; } }
+    .a { animation: fade 1s; }`,
+    mode: "minimal",
+    conversionTables: {
+      classes: { "\\.other": "\\.a" },
+      idents: { "other": "a" },
+      keyframes: { "spin": "a" },
+    },
+    lightningcssOptions: { minify: false },
+  });
+
+  // ".other" is converted to ".a", so the class "a" takes the next name
+  assertEquals(result.conversionTables.classes["\\.a"], "\\.b");
+  assertEquals(result.conversionTables.idents, {
+    "other": "a",
+    "main": "b",
+    "accent": "c",
+  });
+  assertEquals(result.conversionTables.keyframes, { "spin": "a", "fade": "b" });
+});
+
+Deno.test("transform - hash mode lengthens a hash used by a preloaded table", () => {
+  const { conversionTables } = transform({ css: ".button {}", seed: 1 });
+  const buttonHash = conversionTables.classes["\\.button"];
+
+  const result = transform({
+    css: ".button { color: red; }",
+    seed: 1,
+    conversionTables: { classes: { "\\.link": buttonHash } },
+  });
+
+  const newHash = result.conversionTables.classes["\\.button"];
+  assertEquals(newHash.length, buttonHash.length + 1);
+  assertEquals(newHash.startsWith(buttonHash), true);
+  assertEquals(result.warnings, [
+    {
+      code: "hash-collision",
+      message:
+        `".button" has the same hash as ".link" in the classes table, it is converted to "${
+          newHash.replace("\\", "")
+        }" instead.`,
+      selector: ".button",
+      line: 1,
+      column: 1,
+    },
+  ]);
+});
+
+Deno.test("transform - hash mode re-salts a colliding hash", () => {
+  const { conversionTables } = transform({ css: ".button {}", seed: 1 });
+  const buttonHash = conversionTables.classes["\\.button"];
+
+  const result = transform({
+    css: ".button { color: red; }",
+    seed: 1,
+    hashCollision: "resalt",
+    conversionTables: { classes: { "\\.link": buttonHash } },
+  });
+
+  const newHash = result.conversionTables.classes["\\.button"];
+  assertNotEquals(newHash, buttonHash);
+  assertEquals(newHash.length, buttonHash.length);
+  assertEquals(
+    result.warnings.map(({ code }) => code),
+    ["hash-collision"],
+  );
+});
+
+Deno.test("transform - hash mode uses the hash length and encoding", () => {
+  const encodings = {
+    hex: /^[a-z][0-9a-f]{5}$/,
+    base36: /^[a-z][0-9a-z]{5}$/,
+    base52: /^[a-zA-Z]{6}$/,
+    base62: /^[a-zA-Z][0-9a-zA-Z]{5}$/,
+  } as const;
+
+  Object.entries(encodings).forEach(([encoding, pattern]) => {
+    const { conversionTables } = transform({
+      css: ".button {} .card {} .title {}",
+      hashLength: 6,
+      hashEncoding: encoding as keyof typeof encodings,
+    });
+    Object.values(conversionTables.classes).forEach((value) =>
+      assertMatch(value.slice(2), pattern) // <- Without the escaped "."
+    );
+  });
+});
+
+Deno.test("transform - minimal mode gives the shortest names to the most used names", () => {
+  const input = `.once { color: red; }
+  .often { --size: 1px; margin: var(--gap); }
+  .often.twice { padding: var(--gap); }
+  .often .twice { gap: var(--gap); }`;
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    minimalOrder: "frequency",
+    lightningcssOptions: { minify: false },
+  });
+
+  assertEquals(result.conversionTables.classes, {
+    "\\.often": "\\.a",
+    "\\.twice": "\\.b",
+    "\\.once": "\\.c",
+  });
+  assertEquals(result.conversionTables.idents, { "gap": "a", "size": "b" });
+  INTERNAL_assertCss(
+    result.css,
+    `.c { color: red; }
+    .a { --b: 1px; margin: var(--a); }
+    .a.b { padding: var(--a); }
+    .a .b { gap: var(--a); }`,
+  );
+});
+
+Deno.test("transform - minimal mode breaks frequency ties alphabetically", () => {
+  const tables = [
+    ".zebra { color: red; } .apple { color: blue; } .mango.mango {}",
+    ".mango.mango {} .apple { color: blue; } .zebra { color: red; }",
+  ].map((css) =>
+    transform({
+      css,
+      mode: "minimal",
+      minimalOrder: "frequency",
+      minimalTieBreak: "alphabetical",
+    }).conversionTables.classes
+  );
+
+  assertEquals(tables[0], {
+    "\\.mango": "\\.a",
+    "\\.apple": "\\.b",
+    "\\.zebra": "\\.c",
+  });
+  assertEquals(tables[1], tables[0]);
+});
+
+Deno.test("transformFiles - counts the names of every file", () => {
+  const result = transformFiles({
+    files: [
+      { filename: "home.css", css: ".hero { color: red; }" },
+      {
+        filename: "about.css",
+        css: ".card { color: blue; } .card .card-title { margin: 0; }",
+      },
+    ],
+    mode: "minimal",
+    minimalOrder: "frequency",
+  });
+
+  assertEquals(result.conversionTables.classes, {
+    "\\.card": "\\.a",
+    "\\.hero": "\\.b",
+    "\\.card-title": "\\.c",
+  });
+  INTERNAL_assertCss(result.files[0].css, ".b{color:red}");
+});
+
+Deno.test("transform - minimal mode uses a custom alphabet", () => {
+  const input = Array.from({ length: 30 }, (_, i) => `.c${i} { order: ${i}; }`)
+    .join("\n");
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    minimalAlphabet: "a-zA-Z0-9_-",
+  });
+
+  const values = Object.values(result.conversionTables.classes);
+  assertEquals(values.slice(24, 30), [
+    "\\.y",
+    "\\.z",
+    "\\.A",
+    "\\.B",
+    "\\.C",
+    "\\.D",
+  ]);
+  // No value needs escaping
+  values.forEach((value) => assertEquals(/^\\\.[a-zA-Z_]/.test(value), true));
+});
+
+Deno.test("transform - rejects a minimal alphabet that needs escaping", () => {
+  assertThrows(
+    () =>
+      transform({
+        css: ".button {}",
+        mode: "minimal",
+        minimalAlphabet: "a-z.",
+      }),
+    Error,
+    "needs escaping",
+  );
+});
+
+Deno.test("transform - minimal mode skips ad-blocker sensitive names", () => {
+  const input = Array.from({ length: 30 }, (_, i) => `.c${i} { order: ${i}; }`)
+    .join("\n");
+
+  const values = Object.values(
+    transform({ css: input, mode: "minimal" }).conversionTables.classes,
+  );
+  assertEquals(values.slice(28), ["\\.ac", "\\.ae"]);
+
+  const unsafeValues = Object.values(
+    transform({ css: input, mode: "minimal", avoidAdBlockerNames: false })
+      .conversionTables.classes,
+  );
+  assertEquals(unsafeValues.slice(28), ["\\.ac", "\\.ad"]);
+});
+
+Deno.test("transform - never generates reserved names", () => {
+  const result = transform({
+    css: `.button { --size: 1px; } .card { --gap: 1px; } .title {}
+    @keyframes fade { from { opacity: 0; } }`,
+    mode: "minimal",
+    reservedNames: ["a", /^c$/],
+    lightningcssOptions: { minify: false },
+  });
+
+  assertEquals(result.conversionTables.classes, {
+    "\\.button": "\\.b",
+    "\\.card": "\\.d",
+    "\\.title": "\\.e",
+  });
+  assertEquals(result.conversionTables.idents, { "size": "b", "gap": "d" });
+  assertEquals(result.conversionTables.keyframes, { "fade": "b" });
+});
+
+Deno.test("transform - skips reserved names in hash and debug mode", () => {
+  const buttonHash = transform({ css: ".button {}" }).conversionTables
+    .classes["\\.button"];
+  const hashResult = transform({
+    css: ".button {}",
+    reservedNames: [buttonHash.slice(2)], // <- Without the escaped "."
+  });
+  assertNotEquals(
+    hashResult.conversionTables.classes["\\.button"],
+    buttonHash,
+  );
+
+  // A longer hash starts like the reserved one, so the hash is re-salted instead
+  const prefixResult = transform({
+    css: Array.from({ length: 100 }, (_, i) => `.c${i} {}`).join(""),
+    reservedNames: [/^a/],
+  });
+  Object.values(prefixResult.conversionTables.classes).forEach((name) =>
+    assertMatch(name, /^\\\.[b-z][0-9a-f]{7}$/)
+  );
+
+  const debugResult = transform({
+    css: ".button { color: red; } .card { color: blue; }",
+    mode: "debug",
+    reservedNames: ["_.button"], // <- Debug names of selectors keep the "."
+    lightningcssOptions: { minify: false },
+  });
+  assertEquals(debugResult.conversionTables.classes, {
+    "\\.button": "\\._\\.button-1",
+    "\\.card": "\\._\\.card",
+  });
+});
+
+Deno.test("transform - throws when every name is reserved", () => {
+  assertThrows(
+    () =>
+      transform({
+        css: ".button {}",
+        mode: "minimal",
+        reservedNames: [/./],
+      }),
+    Error,
+    "that is not reserved",
+  );
+});
+
+Deno.test("transform - minimal mode skips any number of preloaded names", () => {
+  // A table saved by a previous build with more names than the reserved attempts
+  const classes = Object.fromEntries(
+    Array.from(
+      { length: 12_000 },
+      (_, i) => [`\\.old${i}`, `\\.${numberToLetters(i)}`],
+    ),
+  );
+
+  const result = transform({
+    css: ".button { color: red; }",
+    mode: "minimal",
+    conversionTables: { classes },
+  });
+
+  const value = result.conversionTables.classes["\\.button"];
+  assertEquals(Object.values(classes).includes(value), false);
+  assertEquals(value, `\\.${numberToLetters(12_000)}`);
+});
+
+Deno.test("transform - hash mode keeps short hashes unique", () => {
+  const input = Array.from({ length: 60 }, (_, i) => `.c${i} { order: ${i}; }`)
+    .join("\n");
+
+  const result = transform({
+    css: input,
+    hashLength: 1,
+    hashEncoding: "base52",
+  });
+
+  const values = Object.values(result.conversionTables.classes);
+  assertEquals(new Set(values).size, 60);
+  assertEquals(
+    result.warnings.some(({ code }) => code === "hash-collision"),
+    true,
+  );
+  assertEquals(
+    result.warnings.some(({ code }) => code === "table-conflict"),
+    false,
+  );
+});
+
+Deno.test("transform - hash mode uses the hash algorithm", () => {
+  const css = ".button { color: red; } .card { color: blue; }";
+  const xxh32 = transform({ css, seed: 1 });
+  const xxh64 = transform({ css, seed: 1, hashAlgorithm: "xxh64" });
+  const custom = transform({
+    css,
+    hashAlgorithm: (value) => `h-${value.slice(1)}`,
+  });
+
+  assertNotEquals(xxh64.css, xxh32.css);
+  assertEquals(xxh32.conversionTables.meta, {
+    algorithm: "xxh32",
+    seedVersion: 2,
+  });
+  assertEquals(xxh64.conversionTables.meta.algorithm, "xxh64");
+  assertEquals(custom.conversionTables.meta.algorithm, "custom");
+  INTERNAL_assertCss(custom.css, ".h-button{color:red}.h-card{color:#00f}");
+});
+
+Deno.test("transform - string seeds that are anagrams give different hashes", () => {
+  const css = ".button { color: red; }";
+
+  assertNotEquals(
+    transform({ css, seed: "ab" }).css,
+    transform({ css, seed: "ba" }).css,
+  );
+});
+
+Deno.test("transform - rejects tables generated with another hash algorithm or seed version", () => {
+  const { conversionTables } = transform({ css: ".button {}" });
+  const savedTables = JSON.parse(JSON.stringify(conversionTables));
+
+  // Same algorithm and seed version
+  transform({ css: ".card {}", conversionTables: savedTables });
+
+  assertThrows(
+    () =>
+      transform({
+        css: ".card {}",
+        hashAlgorithm: "xxh64",
+        conversionTables: savedTables,
+      }),
+    Error,
+    "generated with the xxh32 algorithm and seed version 2",
+  );
+  assertThrows(
+    () =>
+      transform({
+        css: ".card {}",
+        conversionTables: {
+          ...savedTables,
+          meta: { algorithm: "xxh32", seedVersion: 1 },
+        },
+      }),
+    Error,
+    "seed version 1",
+  );
+
+  // Template mode hashes too
+  assertThrows(
+    () =>
+      transform({
+        css: ".card {}",
+        mode: "template",
+        template: "[name]_[hash:5]",
+        hashAlgorithm: "xxh64",
+        conversionTables: savedTables,
+      }),
+    Error,
+    "generated with the xxh32 algorithm and seed version 2",
+  );
+
+  // Minimal mode does not hash, so any table can be reused and keeps its meta
+  const minimalResult = transform({
+    css: ".card {}",
+    mode: "minimal",
+    hashAlgorithm: "xxh64",
+    conversionTables: savedTables,
+  });
+  assertEquals(minimalResult.conversionTables.meta, {
+    algorithm: "xxh32",
+    seedVersion: 2,
+  });
+});
+
+Deno.test("transform - template mode builds names from the template", () => {
+  const input = `:root { --main-color: red; }
+  .button { color: var(--main-color); }
+  #header { animation: fade 1s; }
+  @keyframes fade { from { opacity: 0; } }`;
+
+  const result = transform({
+    css: input,
+    filename: "src/components/button.module.css",
+    mode: "template",
+    template: "[file]_[kind]_[name]_[index]",
+    lightningcssOptions: { minify: false },
+  });
+
+  assertEquals(result.conversionTables.classes, {
+    "\\.button": "\\.button_class_button_0",
+  });
+  assertEquals(result.conversionTables.ids, {
+    "\\#header": "\\#button_id_header_0",
+  });
+  assertEquals(result.conversionTables.idents, {
+    "main-color": "button_ident_main-color_0",
+  });
+  assertEquals(result.conversionTables.keyframes, {
+    "fade": "button_keyframes_fade_0",
+  });
+});
+
+Deno.test("transform - template mode hashes names", () => {
+  const result = transform({
+    css: ".button { color: red; } .md\\:flex { display: flex; }",
+    mode: "template",
+    template: "[name]__[hash:5]",
+    lightningcssOptions: { minify: false },
+  });
+
+  const [button, flex] = Object.values(result.conversionTables.classes);
+  assertMatch(button, /^\\\.button__[a-z][0-9a-f]{4}$/);
+  // Characters that need escaping are replaced
+  assertMatch(flex, /^\\\.md_flex__[a-z][0-9a-f]{4}$/);
+
+  // The default template
+  assertEquals(
+    transform({ css: ".button {}", mode: "template" }).conversionTables
+      .classes["\\.button"],
+    button,
+  );
+});
+
+Deno.test("transform - template mode numbers names used twice", () => {
+  const result = transform({
+    css: ".button { color: red; } #button { color: blue; } .btn { gap: 0; }",
+    mode: "template",
+    template: "x-[kind]",
+    lightningcssOptions: { minify: false },
+  });
+
+  assertEquals(result.conversionTables.classes, {
+    "\\.button": "\\.x-class",
+    "\\.btn": "\\.x-class-1",
+  });
+  assertEquals(result.conversionTables.ids, {
+    "\\#button": "\\#x-id",
+  });
+});
+
+Deno.test("transform - template mode keeps names the ad-blocker list matches", () => {
+  const result = transform({
+    css: ".ad { color: red; } .ads-top { gap: 0; } .ad-x { margin: 0; }",
+    mode: "template",
+    template: "[name]",
+    lightningcssOptions: { minify: false },
+  });
+
+  assertEquals(result.conversionTables.classes, {
+    "\\.ad": "\\.ad",
+    "\\.ads-top": "\\.ads-top",
+    "\\.ad-x": "\\.ad-x",
+  });
+  // The default template keeps the name too
+  transform({
+    css: ".ad { color: red; } .ads_top { gap: 0; }",
+    mode: "template",
+  });
+});
+
+Deno.test("transform - template mode rejects invalid templates and identifiers", () => {
+  assertThrows(
+    () =>
+      transform({
+        css: ".button {}",
+        mode: "template",
+        template: "[name]-[unknown]",
+      }),
+    Error,
+    'Unknown placeholder "[unknown]"',
+  );
+  assertThrows(
+    () =>
+      transform({
+        css: ".button {}",
+        mode: "template",
+        template: "[index]-[name]",
+      }),
+    Error,
+    '"0-button" for ".button", which is not a valid CSS identifier',
+  );
+});
+
+Deno.test("transform - mode can be a naming function", () => {
+  const calls: [string, NamingContext][] = [];
+  const result = transform({
+    css: `.button { color: var(--main-color); }
+    #header { color: red; }
+    .md\\:flex { display: flex; }
+    .card { color: blue; }`,
+    filename: "src/button.css",
+    mode: (original, context) => {
+      calls.push([original, { ...context, table: { ...context.table } }]);
+      return original === "card" ? "ui-button" : `ui-${original}`;
+    },
+    lightningcssOptions: { minify: false },
+  });
+
+  assertEquals(calls.map(([original]) => original), [
+    "button",
+    "main-color",
+    "header",
+    "md:flex",
+    "card",
+  ]);
+  assertEquals(calls[0][1], {
+    kind: "class",
+    file: "src/button.css",
+    index: 0,
+    table: {},
+  });
+  assertObjectMatch(calls[2][1], { kind: "id", index: 0 });
+  assertObjectMatch(calls[1][1], { kind: "ident", index: 0 });
+  assertEquals(Object.keys(calls[4][1].table).length, 2);
+
+  // The names are escaped and numbered when they are already used
+  assertEquals(result.conversionTables.classes, {
+    "\\.button": "\\.ui-button",
+    "\\.md\\:flex": "\\.ui-md\\:flex",
+    "\\.card": "\\.ui-button-1",
+  });
+  assertEquals(result.conversionTables.ids, {
+    "\\#header": "\\#ui-header",
+  });
+  assertEquals(result.conversionTables.idents, {
+    "main-color": "ui-main-color",
+  });
+});
+
+Deno.test("transform - naming function must give a name", () => {
+  assertThrows(
+    () => transform({ css: ".button { color: red; }", mode: () => "" }),
+    Error,
+    'The naming function gives "" for ".button"',
+  );
+});
+
+Deno.test("transform - configures classes, ids and custom properties separately", () => {
+  const input = `
+    :root { --main-color: red; }
+    .button { color: var(--main-color); }
+    .btn-close { margin: 0; }
+    #header { color: blue; }
+    #app { color: green; }
+  `;
+
+  const result = transform({
+    css: input,
+    mode: { classes: "minimal", ids: "debug" },
+    prefix: { ids: "id-" },
+    ignorePatterns: { classes: ["^btn-"] },
+    renameIdents: false,
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(
+    result.css,
+    `
+    :root { --main-color: red; }
+    .a { color: var(--main-color); }
+    .btn-close { margin: 0; }
+    #_id-\\#header { color: #00f; }
+    #_id-\\#app { color: green; }
+  `,
+  );
+  assertEquals(result.conversionTables.classes, { "\\.button": "\\.a" });
+  assertEquals(result.conversionTables.ids, {
+    "\\#header": "\\#_id-\\#header",
+    "\\#app": "\\#_id-\\#app",
+  });
+  assertEquals(result.conversionTables.idents, {});
+
+  // The other categories keep the default mode
+  assertMatch(
+    transform({
+      css: "@keyframes fade { from { opacity: 0; } }",
+      mode: { classes: "minimal" },
+    }).conversionTables.keyframes.fade,
+    /^[a-z][0-9a-f]{7}$/,
+  );
+});
+
+Deno.test("transform - selectors options apply to both classes and ids", () => {
+  const result = transform({
+    css:
+      ".button { color: red; } #header { color: blue; } .icon-x { margin: 0; }",
+    mode: { selectors: "minimal", ids: "template" },
+    template: "[kind]-[name]",
+    prefix: { selectors: "s-", classes: "c-" },
+    ignorePatterns: { selectors: ["^icon-"] },
+    lightningcssOptions: { minify: false },
+  });
+
+  assertEquals(result.conversionTables.classes, { "\\.button": "\\.c-a" });
+  assertEquals(result.conversionTables.ids, { "\\#header": "\\#s-id-header" });
+});
+
+Deno.test("transform - can keep classes or ids as is", () => {
+  const input = ".button { color: red; } #header .title { color: blue; }";
+
+  INTERNAL_assertCss(
+    transform({
+      css: input,
+      mode: "minimal",
+      renameClasses: false,
+      lightningcssOptions: { minify: false },
+    }).css,
+    ".button { color: red; } #a .title { color: #00f; }",
+  );
+
+  const result = transform({
+    css: input,
+    mode: "minimal",
+    renameIds: false,
+    lightningcssOptions: { minify: false },
+  });
+  INTERNAL_assertCss(
+    result.css,
+    ".a { color: red; } #header .b { color: #00f; }",
+  );
+  assertEquals(result.conversionTables.ids, {});
+});
+
+Deno.test("transform - splits a selectors table of older versions", () => {
+  const result = transform({
+    css:
+      ".button { color: red; } #header { color: blue; } .card { margin: 0; }",
+    mode: "minimal",
+    conversionTables: {
+      selectors: { "\\.button": "\\.a", "\\#header": "\\#a" },
+    },
+    lightningcssOptions: { minify: false },
+  });
+
+  assertEquals(result.conversionTables.classes, {
+    "\\.button": "\\.a",
+    "\\.card": "\\.b",
+  });
+  assertEquals(result.conversionTables.ids, { "\\#header": "\\#a" });
+  assertEquals("selectors" in result.conversionTables, false);
+});
+
+Deno.test("transform - frequency order applies to the categories in minimal mode", () => {
+  const result = transform({
+    css: ".rare { color: red; } .common.common { margin: 0; } #x { gap: 0; }",
+    mode: { classes: "minimal", ids: "debug" },
+    minimalOrder: "frequency",
+    lightningcssOptions: { minify: false },
+  });
+
+  assertEquals(result.conversionTables.classes, {
+    "\\.common": "\\.a",
+    "\\.rare": "\\.b",
+  });
+  assertEquals(result.conversionTables.ids, { "\\#x": "\\#_\\#x" });
+});
+
+Deno.test("transform - debug mode keeps names ending with -ad", () => {
+  const result = transform({
+    css: ".header-ad { color: red; }",
+    mode: "debug",
+    lightningcssOptions: { minify: false },
+  });
+
+  INTERNAL_assertCss(result.css, "._\\.header-ad { color: red; }");
+});
+
+Deno.test("transform - keeps the anonymous layer of @import with supports()", () => {
+  const result = transform({
+    css: `@import url(c.css) layer supports(selector(.q));
+    .q { color: red; }`,
+    mode: "minimal",
+    lightningcssOptions: { minify: false },
+  });
+
+  assertEquals(
+    result.css,
+    '@import "c.css" layer supports(selector(.q));\n\n.a {\n  color: red;\n}\n',
+  );
+  assertEquals(result.warnings, []);
+});
+
+Deno.test("transform - throws on unknown option values", () => {
+  assertThrows(
+    () =>
+      transform({
+        css: ".a { color: red; }",
+        hashEncoding: "base99" as "hex",
+      }),
+    Error,
+    'Unknown hashEncoding "base99", use "hex", "base36", "base52" or "base62"',
+  );
+  assertThrows(
+    () =>
+      transform({
+        css: ".a { color: red; }",
+        hashAlgorithm: "md5" as "xxh32",
+      }),
+    Error,
+    'Unknown hashAlgorithm "md5", use "xxh32" or "xxh64"',
+  );
+  assertThrows(
+    () =>
+      transform({
+        css: ".a { color: red; }",
+        mode: "minimal",
+        minimalOrder: "random" as "frequency",
+      }),
+    Error,
+    'Unknown minimalOrder "random", use "appearance" or "frequency"',
+  );
+});
+
 /**
  * Removes all spaces from a string.
  *
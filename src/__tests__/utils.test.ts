@@ -1,7 +1,9 @@
-import { assertEquals } from "jsr:@std/assert";
+import { assertEquals, assertNotEquals, assertThrows } from "jsr:@std/assert";
 import {
+  createCodeFrame,
   cssEscape,
   cssUnescape,
+  expandAlphabet,
   generateHash,
   initializeHash,
   isNArray,
@@ -117,6 +119,27 @@ Deno.test("numberToLetters converts numbers to alphabetical representation", ()
   assertEquals(numberToLetters(702), "aaa");
 });
 
+Deno.test("numberToLetters uses a custom alphabet without a leading digit or dash", () => {
+  const alphabet = expandAlphabet("a-zA-Z0-9_-");
+  assertEquals(numberToLetters(0, alphabet), "a");
+  assertEquals(numberToLetters(51, alphabet), "Z");
+  assertEquals(numberToLetters(52, alphabet), "_");
+  assertEquals(numberToLetters(53, alphabet), "aa");
+  assertEquals(numberToLetters(53 + 63, alphabet), "a-");
+  assertEquals(numberToLetters(53 + 64, alphabet), "ba");
+  assertEquals(numberToLetters(53 + 53 * 64, alphabet), "aaa");
+});
+
+Deno.test("expandAlphabet expands ranges and rejects characters that need escaping", () => {
+  assertEquals(expandAlphabet("a-e"), "abcde");
+  assertEquals(expandAlphabet("-a-cX_"), "-abcX_");
+  assertEquals(expandAlphabet("a-c_-"), "abc_-");
+  assertThrows(() => expandAlphabet("a.b"), Error, "needs escaping");
+  assertThrows(() => expandAlphabet("z-a"), Error, "Invalid alphabet range");
+  assertThrows(() => expandAlphabet("abca"), Error, "Duplicated");
+  assertThrows(() => expandAlphabet("0-9-"), Error, "start a CSS identifier");
+});
+
 Deno.test("generateHash generates hashes that always start with a lowercase letter", () => {
   for (let i = 0; i < 100; i++) {
     const testString = `test-string-${i}`;
@@ -125,6 +148,51 @@ Deno.test("generateHash generates hashes that always start with a lowercase lett
   }
 });
 
+Deno.test("generateHash generates hashes of the given length and encoding", () => {
+  assertEquals(generateHash("test", 1, { length: 8 }), generateHash("test", 1));
+  for (const length of [1, 4, 12, 30]) {
+    const hash = generateHash("test", 1, { length, encoding: "base62" });
+    assertEquals(hash.length, length);
+    assertEquals(/^[a-zA-Z][0-9a-zA-Z]*$/.test(hash), true);
+  }
+  // A longer hash starts with the shorter one
+  assertEquals(
+    generateHash("test", 1, { length: 20, encoding: "base36" }).slice(0, 10),
+    generateHash("test", 1, { length: 10, encoding: "base36" }),
+  );
+  assertThrows(() => generateHash("test", 1, { length: 0 }), Error);
+});
+
+Deno.test("generateHash supports xxh64 and custom algorithms", () => {
+  const xxh32 = generateHash("test", 1);
+  const xxh64 = generateHash("test", 1, { algorithm: "xxh64" });
+  assertEquals(xxh64.length, 8);
+  assertNotEquals(xxh64, xxh32);
+  assertEquals(
+    generateHash("test", 1, { length: 16, algorithm: "xxh64" }).slice(0, 8),
+    xxh64,
+  );
+
+  const custom = (value: string, seed?: number) => `${value}${seed}`;
+  assertEquals(generateHash("test", 1, { algorithm: custom }), "test1");
+  // A leading digit is still mapped to a letter
+  assertEquals(
+    /^[a-z]/.test(generateHash("1", 1, { algorithm: custom })),
+    true,
+  );
+  // The output of a custom algorithm must be usable in a name
+  assertThrows(
+    () => generateHash("test", 1, { algorithm: () => "" }),
+    Error,
+    'The hash algorithm gives "" for "test"',
+  );
+  assertThrows(
+    () => generateHash("test", 1, { algorithm: () => "q+/=" }),
+    Error,
+    'The hash algorithm gives "q+/=" for "test"',
+  );
+});
+
 Deno.test("generateHash produces consistent hashes", () => {
   const testString = "test-string";
   const hash1 = generateHash(testString);
@@ -191,12 +259,33 @@ Deno.test("matchesAnyPattern identifies matching patterns correctly", () => {
 });
 
 Deno.test("stringSeedToNumber converts string seeds correctly", () => {
-  assertEquals(stringSeedToNumber("a"), 97);
-  assertEquals(stringSeedToNumber("abc"), 97 + 98 + 99); // 294
-  assertEquals(stringSeedToNumber(""), 0);
+  // Same string seeds give the same number
+  assertEquals(stringSeedToNumber("seed1"), stringSeedToNumber("seed1"));
+  // Anagrams give different numbers
+  assertNotEquals(stringSeedToNumber("ab"), stringSeedToNumber("ba"));
+  assertNotEquals(stringSeedToNumber("v1.2.0"), stringSeedToNumber("v2.1.0"));
+  // Seeds are 32-bit unsigned integers
+  const seed = stringSeedToNumber("seed1");
+  assertEquals(Number.isInteger(seed) && seed >= 0 && seed < 2 ** 32, true);
+});
+Deno.test("createCodeFrame points at the given location", () => {
+  const source = ".a { color: red; }\n.b { color: red; ]\n.c {}\n.d {}\n.e {}";
+
+  assertEquals(
+    createCodeFrame(source, 2, 18),
+    [
+      "  1 | .a { color: red; }",
+      "> 2 | .b { color: red; ]",
+      "    |                  ^",
+      "  3 | .c {}",
+      "  4 | .d {}",
+    ].join("\n"),
+  );
   assertEquals(
-    stringSeedToNumber("seed1"),
-    "s".charCodeAt(0) + "e".charCodeAt(0) + "e".charCodeAt(0) +
-      "d".charCodeAt(0) + "1".charCodeAt(0),
+    createCodeFrame(source, 5, undefined, 1),
+    [
+      "  4 | .d {}",
+      "> 5 | .e {}",
+    ].join("\n"),
   );
 });
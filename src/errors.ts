@@ -0,0 +1,74 @@
+/**
+ * The location of a {@link CssSeasoningError} in the source CSS.
+ */
+export interface CssSeasoningErrorLocation {
+  /**
+   * The file the error occurred in.
+   */
+  file: string;
+
+  /**
+   * The line in the source CSS, starting at 1.
+   */
+  line?: number;
+
+  /**
+   * The column in the source CSS, starting at 1.
+   */
+  column?: number;
+
+  /**
+   * The source line the error points at.
+   */
+  snippet?: string;
+}
+
+/**
+ * An error thrown by css-seasoning, eg. when the CSS cannot be parsed
+ * or when an unknown selector part is found in strict mode.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   transform({ css: ".a { color: red; ]", filename: "button.css" });
+ * } catch (error) {
+ *   if (error instanceof CssSeasoningError) {
+ *     console.error(`${error.file}:${error.line}:${error.column}`, error.message);
+ *   }
+ * }
+ * ```
+ */
+export class CssSeasoningError extends Error {
+  /**
+   * The file the error occurred in.
+   */
+  readonly file: string;
+
+  /**
+   * The line in the source CSS, starting at 1.
+   */
+  readonly line?: number;
+
+  /**
+   * The column in the source CSS, starting at 1.
+   */
+  readonly column?: number;
+
+  /**
+   * The source line the error points at.
+   */
+  readonly snippet?: string;
+
+  constructor(
+    message: string,
+    { file, line, column, snippet }: CssSeasoningErrorLocation,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "CssSeasoningError";
+    this.file = file;
+    this.line = line;
+    this.column = column;
+    this.snippet = snippet;
+  }
+}
@@ -1,3 +1,4 @@
+export * from "@/errors.ts";
 export * from "@/transformer.ts";
 export * from "@/types.ts";
 export * from "@/utils.ts";
@@ -1,24 +1,236 @@
-import type { CustomAtRules, Selector, Visitor } from "lightningcss-wasm";
+import type {
+  AnimationName,
+  ContainerNameList,
+  CustomAtRules,
+  Function as LightningFunction,
+  GridLine,
+  GridTemplateAreas,
+  ListStyleType,
+  MediaCondition,
+  PredefinedCounterStyle,
+  Selector,
+  SelectorComponent,
+  SupportsCondition,
+  TokenOrValue,
+  TrackSizing,
+  Visitor,
+} from "lightningcss-wasm";
 import type {
   ConversionTable,
+  ConversionTables,
+  ConversionTablesMeta,
+  HashAlgorithm,
+  HashEncoding,
+  Mode,
+  ModeOptions,
+  NameKind,
+  NamingFunction,
   PrefixSuffixOptions,
   Transform,
+  TransformFiles,
   TransformProps,
+  TransformWarning,
 } from "@/types.ts";
 
-import init, { transform as lightningcssTransform } from "lightningcss-wasm";
+import init, {
+  composeVisitors,
+  transform as lightningcssTransform,
+} from "lightningcss-wasm";
 import {
   cssEscape,
   cssUnescape,
+  expandAlphabet,
   generateHash,
   initializeHash,
   isNArray,
+  keepsTokenWhitespace,
   matchesAnyPattern,
   numberToLetters,
   parseSelectorComponent,
+  parseTokens,
+  SEED_VERSION,
   stringifySelectorComponent,
+  stringifySelectorComponentComplex,
   stringSeedToNumber,
 } from "@/utils.ts";
+import { CssSeasoningError } from "@/errors.ts";
+
+/**
+ * Pseudo-classes that lightningcss parses as unknown, but are standard and need no handling.
+ */
+const KNOWN_CUSTOM_PSEUDO_CLASSES = new Set([
+  "state", // eg. :state(checked)
+  "host-context", // eg. :host-context(.theme)
+  "has-slotted",
+  "heading",
+  "target-current",
+]);
+
+/**
+ * Pseudo-elements that lightningcss parses as unknown, but are standard and need no handling.
+ */
+const KNOWN_CUSTOM_PSEUDO_ELEMENTS = new Set([
+  "highlight", // eg. ::highlight(search-result)
+  "target-text",
+  "spelling-error",
+  "grammar-error",
+  "details-content",
+  "checkmark",
+  "picker", // eg. ::picker(select)
+  "picker-icon",
+  "scroll-button", // eg. ::scroll-button(left)
+  "scroll-marker",
+  "scroll-marker-group",
+  "column",
+]);
+
+/**
+ * Counter names defined by CSS itself (and CSS-wide keywords) that must never be converted.
+ */
+const RESERVED_COUNTER_NAMES = new Set([
+  "none",
+  "list-item",
+  "inherit",
+  "initial",
+  "unset",
+  "revert",
+  "revert-layer",
+  "default",
+]);
+
+/**
+ * Counter style names predefined by CSS that must never be converted.
+ */
+const PREDEFINED_COUNTER_STYLES = new Set<string>(
+  [
+    "decimal",
+    "decimal-leading-zero",
+    "arabic-indic",
+    "armenian",
+    "upper-armenian",
+    "lower-armenian",
+    "bengali",
+    "cambodian",
+    "khmer",
+    "cjk-decimal",
+    "devanagari",
+    "georgian",
+    "gujarati",
+    "gurmukhi",
+    "hebrew",
+    "kannada",
+    "lao",
+    "malayalam",
+    "mongolian",
+    "myanmar",
+    "oriya",
+    "persian",
+    "lower-roman",
+    "upper-roman",
+    "tamil",
+    "telugu",
+    "thai",
+    "tibetan",
+    "lower-alpha",
+    "lower-latin",
+    "upper-alpha",
+    "upper-latin",
+    "lower-greek",
+    "hiragana",
+    "hiragana-iroha",
+    "katakana",
+    "katakana-iroha",
+    "disc",
+    "circle",
+    "square",
+    "disclosure-open",
+    "disclosure-closed",
+    "cjk-earthly-branch",
+    "cjk-heavenly-stem",
+    "japanese-informal",
+    "japanese-formal",
+    "korean-hangul-formal",
+    "korean-hanja-informal",
+    "korean-hanja-formal",
+    "simp-chinese-informal",
+    "simp-chinese-formal",
+    "trad-chinese-informal",
+    "trad-chinese-formal",
+    "ethiopic-numeric",
+  ] satisfies PredefinedCounterStyle[],
+);
+
+/**
+ * View transition keywords that must never be converted.
+ */
+const RESERVED_VIEW_TRANSITION_NAMES = new Set([
+  "none",
+  "auto",
+  "match-element",
+  "normal",
+  "contain",
+  "nearest",
+]);
+
+/**
+ * Class and id names hidden by the generic cosmetic filters of common ad-blocker lists (eg. EasyList),
+ * generated selector names must never be one of them.
+ *
+ * Only applied to the modes that make up names, the names built from the original name
+ * (eg. `header-ad` in debug mode) could never escape the patterns by numbering.
+ */
+const AD_BLOCKER_SENSITIVE_NAMES: (string | RegExp)[] = [
+  "ad",
+  "ads",
+  "adv",
+  "advert",
+  "adverts",
+  "advertise",
+  "advertisement",
+  "advertising",
+  "adbox",
+  "adsbox",
+  "adbanner",
+  "adunit",
+  "adslot",
+  "adspace",
+  "adzone",
+  "banner",
+  "banners",
+  "sponsor",
+  "sponsored",
+  "promoted",
+  "textad",
+  /^ads?[-_]/,
+  /[-_]ads?$/,
+  /[-_]ads?[-_]/,
+];
+
+/**
+ * Converters for non-selector names that appear inside selectors,
+ * eg. `::view-transition-group(hero)` or `:--heading`.
+ */
+interface SelectorNameConverters {
+  /**
+   * Converts a view transition name or class.
+   */
+  viewTransitions: (name: string) => string;
+
+  /**
+   * Converts a custom selector name (without the `--` prefix).
+   */
+  customSelectors: (name: string) => string;
+
+  /**
+   * Converts a shadow part name, omitted when part renaming is disabled.
+   */
+  parts?: (name: string) => string;
+
+  /**
+   * Converts the class and id names of a selector given as raw tokens, eg. `:host-context(.theme)`.
+   */
+  selectorTokens: (tokens: TokenOrValue[]) => TokenOrValue[];
+}
 
 export const initTransform = async () => {
   await init();
@@ -29,19 +241,73 @@ export const initTransform = async () => {
  * Recursively processes a CSS selector's components with a given conversion function.
  *
  * @param selector - The CSS selector to process.
- * @param selectorConversionTable - A table mapping original values to converted values.
+ * @param selectorConversionTables - The tables mapping original class and id values to converted values.
  * @param conv - A conversion function that transforms a string.
- * @param ignoreSelectorPatterns - Regex patterns for selectors to ignore.
+ * @param ignoreSelectorPatterns - Regex patterns for classes and ids to ignore.
+ * @param nameConverters - Converters for non-selector names used inside the selector.
+ * @param onWarning - Called with the warnings about the selector, eg. unknown or ignored parts.
  * @returns The processed selector.
  */
 const INTERNAL_handleSelector = (
   selector: Selector,
-  selectorConversionTable: ConversionTable,
+  selectorConversionTables: Pick<ConversionTables, "classes" | "ids">,
   conv: (
     ...props: Parameters<ReturnType<typeof createConversionFunction>>
   ) => string | Selector,
-  ignoreSelectorPatterns?: (string | RegExp)[],
+  ignoreSelectorPatterns?: {
+    classes?: (string | RegExp)[];
+    ids?: (string | RegExp)[];
+  },
+  nameConverters?: SelectorNameConverters,
+  onWarning?: (warning: TransformWarning) => void,
 ): Selector | Selector[] => {
+  //? The components are renamed in place, so keep the source selector for the warnings
+  const sourceSelector = onWarning
+    ? stringifySelectorComponentComplex(selector)
+    : "";
+
+  /**
+   * Processes a selector nested in one of the components, eg. `:not(.a)`.
+   */
+  const handleNestedSelector = (nestedSelector: Selector) =>
+    INTERNAL_handleSelector(
+      nestedSelector,
+      selectorConversionTables, // <- passing reference
+      conv,
+      ignoreSelectorPatterns,
+      nameConverters,
+      onWarning,
+    );
+
+  /**
+   * Reports a warning about the unhandled part of the selector.
+   */
+  const reportUnhandled = (description: string) => {
+    if (!onWarning) {
+      return;
+    }
+    onWarning({
+      code: "unhandled-selector",
+      message: `Unhandled ${description} in selector "${sourceSelector}".`,
+      selector: sourceSelector,
+    });
+  };
+
+  /**
+   * Reports a pseudo-class or pseudo-element unknown to lightningcss,
+   * unless it is known to be safe to keep. It is kept as is either way.
+   */
+  const checkCustomName = (
+    description: "pseudo-class" | "pseudo-element",
+    name: string,
+    knownNames: Set<string>,
+  ) => {
+    const isVendorPrefixed = name.startsWith("-") && !name.startsWith("--"); // eg. ::-moz-focus-inner
+    if (!knownNames.has(name) && !isVendorPrefixed) {
+      reportUnhandled(`${description}: ${name}`);
+    }
+  };
+
   const newSelector = selector.map(
     (component): Selector | Selector[] | (Selector | Selector[])[] => {
       switch (component.type) {
@@ -50,30 +316,101 @@ const INTERNAL_handleSelector = (
         case "combinator": // eg. >, +, ~, etc.
         case "namespace": // eg. |, |namespace, etc.
         case "nesting": // eg. &, &.class, etc.
-        case "pseudo-element": // eg. ::before, ::after, etc.
         case "type": { // eg. div, span, etc.
           // No handling needed for these types
           return [component];
         }
+        case "pseudo-element": { // eg. ::before, ::after, etc.
+          switch (component.kind) {
+            case "view-transition-group": // eg. ::view-transition-group(hero)
+            case "view-transition-image-pair":
+            case "view-transition-old": // eg. ::view-transition-old(*.card)
+            case "view-transition-new": {
+              if (!nameConverters) {
+                return [component];
+              }
+              const { part } = component;
+              if (part.name && part.name !== "*") {
+                part.name = nameConverters.viewTransitions(part.name);
+              }
+              part.classes = part.classes.map(
+                nameConverters.viewTransitions,
+              );
+              return [component];
+            }
+            case "slotted": // eg. ::slotted(.item)
+            case "cue-function": // eg. ::cue(.speaker)
+            case "cue-region-function":
+              //? Converted components may be replaced rather than updated in place
+              component.selector = handleNestedSelector(
+                component.selector,
+              ) as Selector;
+              return [component];
+            case "part": { // eg. ::part(label)
+              if (nameConverters?.parts) {
+                component.names = component.names.map(nameConverters.parts);
+              }
+              return [component];
+            }
+            case "after":
+            case "before":
+            case "first-line":
+            case "first-letter":
+            case "selection":
+            case "placeholder":
+            case "marker":
+            case "backdrop":
+            case "file-selector-button":
+            case "webkit-scrollbar":
+            case "cue":
+            case "cue-region":
+            case "view-transition": {
+              // No further handling needed for these pseudo-elements
+              return [component];
+            }
+            case "custom": // eg. ::target-text, ::-moz-focus-inner
+            case "custom-function": { // eg. ::highlight(search-result)
+              checkCustomName(
+                "pseudo-element",
+                component.name,
+                KNOWN_CUSTOM_PSEUDO_ELEMENTS,
+              );
+              return [component];
+            }
+            default:
+              // @ts-expect-error - Make sure get notified about unhandled kinds
+              reportUnhandled(`pseudo-element: ${component.kind}`);
+              break;
+          }
+          return [component];
+        }
         case "id":
         case "class": {
           const componentWithType = stringifySelectorComponent(component);
+          const category = component.type === "class" ? "classes" : "ids";
           if (componentWithType) {
             // Check if we should ignore this selector based on pattern
-            if (ignoreSelectorPatterns && componentWithType) {
+            const patterns = ignoreSelectorPatterns?.[category];
+            if (patterns && componentWithType) {
               // For class selectors like ".button", extract "button"
               // For id selectors like "#header", extract "header"
               const selectorName = componentWithType.slice(1); // Remove the leading . or #
 
-              if (matchesAnyPattern(selectorName, ignoreSelectorPatterns)) {
+              if (matchesAnyPattern(selectorName, patterns)) {
                 // Skip transformation for this selector
+                onWarning?.({
+                  code: "ignored-name",
+                  message:
+                    `"${componentWithType}" matches an ignore pattern of ${category}, it is kept as is.`,
+                  selector: componentWithType,
+                });
                 return [component];
               }
             }
 
             const convertedSelector = conv(
               componentWithType,
-              selectorConversionTable,
+              selectorConversionTables[category],
               {
                 onNewValueBeforeAdd: (originalValue, valueToSave) => {
                   // Make sure the value being saved is prefixed with the original value's type identifier
@@ -105,37 +442,121 @@ const INTERNAL_handleSelector = (
         }
         case "pseudo-class": // eg. :hover, :active, etc.
           switch (component.kind) {
-            case "disabled":
+            case "lang": // eg. :lang(en)
+            case "dir": // eg. :dir(rtl)
             case "hover":
-            case "custom":
-            case "root":
+            case "active":
             case "focus":
-            case "focus-within":
             case "focus-visible":
+            case "focus-within":
+            case "current":
+            case "past":
+            case "future":
+            case "playing":
+            case "paused":
+            case "seeking":
+            case "buffering":
+            case "stalled":
+            case "muted":
+            case "volume-locked":
+            case "fullscreen":
+            case "open":
+            case "closed":
+            case "modal":
+            case "picture-in-picture":
+            case "popover-open":
+            case "defined":
+            case "any-link":
+            case "link":
+            case "local-link":
+            case "target":
+            case "target-within":
+            case "visited":
+            case "enabled":
+            case "disabled":
+            case "read-only":
+            case "read-write":
+            case "placeholder-shown":
+            case "default":
+            case "checked":
+            case "indeterminate":
+            case "blank":
+            case "valid":
+            case "invalid":
+            case "in-range":
+            case "out-of-range":
+            case "required":
+            case "optional":
+            case "user-valid":
+            case "user-invalid":
+            case "autofill":
+            case "active-view-transition":
+            case "active-view-transition-type": // <- view transition types are not renamed
+            case "webkit-scrollbar":
+            case "root":
+            case "empty":
+            case "first-child":
             case "last-child":
-            case "first-child": {
+            case "only-child":
+            case "first-of-type":
+            case "last-of-type":
+            case "only-of-type":
+            case "nth-col":
+            case "nth-last-col":
+            case "nth-of-type":
+            case "nth-last-of-type":
+            case "scope": { // eg. :scope, the root of the enclosing @scope
               // No further handling needed for these pseudo-classes
               return [component];
             }
-            case "nth-child":
-            case "nth-last-child":
-              component?.of?.map((sel) => {
-                return INTERNAL_handleSelector(
-                  sel,
-                  selectorConversionTable, // <- passing reference
-                  conv,
-                  ignoreSelectorPatterns,
+            case "custom": { // eg. :--heading, :unknown-pseudo-class
+              if (nameConverters && component.name.startsWith("--")) {
+                component.name = `--${
+                  nameConverters.customSelectors(component.name.slice(2))
+                }`;
+              } else if (!component.name.startsWith("--")) {
+                checkCustomName(
+                  "pseudo-class",
+                  component.name,
+                  KNOWN_CUSTOM_PSEUDO_CLASSES,
+                );
+              }
+              return [component];
+            }
+            case "custom-function": { // eg. :host-context(.theme), :state(checked)
+              if (component.name === "host-context" && nameConverters) {
+                component.arguments = nameConverters.selectorTokens(
+                  component.arguments,
+                );
+              } else {
+                checkCustomName(
+                  "pseudo-class",
+                  component.name,
+                  KNOWN_CUSTOM_PSEUDO_CLASSES,
                 );
-              });
+              }
+              return [component];
+            }
+            case "local": // eg. :local(.a), when CSS modules are enabled
+            case "global":
+              component.selector = handleNestedSelector(
+                component.selector,
+              ) as Selector;
+              return [component];
+            case "nth-child": // eg. :nth-child(2 of .a)
+            case "nth-last-child":
+              //? Converted components may be replaced rather than updated in place
+              if (component.of) {
+                component.of = component.of.map(
+                  handleNestedSelector,
+                ) as Selector[];
+              }
               break;
             case "host": // eg. :host, :host(.class)
               if (component.selectors) {
-                INTERNAL_handleSelector(
-                  component.selectors, // <- passing reference
-                  selectorConversionTable,
-                  conv,
-                  ignoreSelectorPatterns,
-                );
+                component.selectors = handleNestedSelector(
+                  component.selectors,
+                ) as Selector;
               }
               return [component];
             case "not":
@@ -143,14 +564,7 @@ const INTERNAL_handleSelector = (
             case "is":
             case "any":
             case "has": {
-              const s = component.selectors.map((sel) => {
-                return INTERNAL_handleSelector(
-                  sel,
-                  selectorConversionTable,
-                  conv,
-                  ignoreSelectorPatterns,
-                );
-              });
+              const s = component.selectors.map(handleNestedSelector);
               if (isNArray(s, 2)) {
                 component.selectors = s as Selector[];
                 return [component];
@@ -158,13 +572,14 @@ const INTERNAL_handleSelector = (
               return s;
             }
             default:
-              console.log(`[unhandled] pseudo-class: ${component.kind}`);
+              // @ts-expect-error - Make sure get notified about unhandled kinds
+              reportUnhandled(`pseudo-class: ${component.kind}`);
               break;
           }
           return [component];
         default:
           // @ts-expect-error - Make sure get notified about unhandled types
-          console.log(`[unhandled] type: ${component.type}`);
+          reportUnhandled(`type: ${component.type}`);
           return [component];
       }
     },
@@ -174,22 +589,228 @@ const INTERNAL_handleSelector = (
   return newSelector.flat(3);
 };
 
+/**
+ * The number of reserved candidate values skipped before giving up, eg. when a pattern reserves every name.
+ * Candidates that are already used are not counted, a preloaded table may hold any number of names.
+ */
+const MAX_RESERVED_ATTEMPTS = 10_000;
+
+/**
+ * The values of each conversion table, to find the values that are already used quickly.
+ */
+const usedValuesByTable = new WeakMap<Record<string, string>, Set<string>>();
+
+/**
+ * Adds a new value to the conversion table, generating candidates
+ * until one is neither used by the table yet, eg. by a preloaded table, nor reserved.
+ *
+ * @param value - The original value (not escaped) being converted.
+ * @param conversionTable - The conversion table to add the value to.
+ * @param generate - Generates a candidate value (not escaped) for the given attempt, starting at 0,
+ * and the number of the attempts so far that gave a reserved name.
+ * @param reservedNames - Names (exact strings or patterns) that are skipped.
+ * @param onNewValueBeforeAdd - Maps the candidate value to the value saved in the table.
+ * @param onCollision - Called with the first candidate value (escaped) that was already used and the saved value (escaped).
+ * @returns The first unused candidate value.
+ */
+const addUnusedValue = (
+  value: string,
+  conversionTable: Record<string, string>,
+  generate: (attempt: number, reservedAttempts: number) => string,
+  reservedNames: (string | RegExp)[],
+  onNewValueBeforeAdd?: (originalValue: string, valueToSave: string) => string,
+  onCollision?: (collidingValue: string, convertToValue: string) => void,
+): string => {
+  let usedValues = usedValuesByTable.get(conversionTable);
+  if (!usedValues) {
+    usedValues = new Set(Object.values(conversionTable));
+    usedValuesByTable.set(conversionTable, usedValues);
+  }
+
+  let collidingValue: string | undefined;
+  let reservedAttempts = 0;
+  for (let attempt = 0;; attempt++) {
+    const newVal = generate(attempt, reservedAttempts);
+    if (
+      reservedNames.some((name) =>
+        typeof name === "string" ? name === newVal : name.test(newVal)
+      )
+    ) {
+      if (++reservedAttempts >= MAX_RESERVED_ATTEMPTS) {
+        throw new Error(
+          `Unable to find a name for "${value}" that is not reserved after ${MAX_RESERVED_ATTEMPTS} attempts`,
+        );
+      }
+      continue;
+    }
+    const valueToSave = cssEscape(
+      onNewValueBeforeAdd ? onNewValueBeforeAdd(value, newVal) : newVal,
+    );
+    if (!usedValues.has(valueToSave)) {
+      conversionTable[cssEscape(value)] = valueToSave;
+      usedValues.add(valueToSave);
+      if (collidingValue !== undefined) {
+        onCollision?.(collidingValue, valueToSave);
+      }
+      return newVal;
+    }
+    collidingValue ??= valueToSave;
+  }
+};
+
+/**
+ * The kind of the names of each category.
+ */
+const CATEGORY_NAME_KINDS: Record<keyof ConversionTables, NameKind> = {
+  classes: "class",
+  ids: "id",
+  idents: "ident",
+  keyframes: "keyframes",
+  layers: "layer",
+  containers: "container",
+  counters: "counter",
+  gridAreas: "grid-area",
+  viewTransitions: "view-transition",
+  customMedia: "custom-media",
+  customSelectors: "custom-selector",
+  parts: "part",
+};
+
+/**
+ * Checks if a category holds selector names, whose values keep their `.` or `#` prefix.
+ *
+ * @param category - The category to check.
+ * @returns `true` for classes and ids, `false` otherwise.
+ */
+const isSelectorCategory = (
+  category: string,
+): category is "classes" | "ids" =>
+  category === "classes" || category === "ids";
+
+/**
+ * Matches the placeholders of a naming template, eg. `[name]` or `[hash:5]`.
+ */
+const TEMPLATE_PLACEHOLDER_REGEX =
+  /\[(name|hash|file|index|kind)(?::(\d+))?\]/g;
+
+/**
+ * Throws if a naming template has an unknown or malformed placeholder.
+ *
+ * @param template - The template to validate, eg. `[name]__[hash:5]`.
+ */
+const validateTemplate = (template: string) => {
+  const unknownPlaceholder = template.replace(TEMPLATE_PLACEHOLDER_REGEX, "")
+    .match(/\[[^\]]*\]?/);
+  if (unknownPlaceholder) {
+    throw new Error(
+      `Unknown placeholder "${
+        unknownPlaceholder[0]
+      }" in the template "${template}", use [name], [hash], [hash:N], [file], [index] or [kind]`,
+    );
+  }
+};
+
+/**
+ * Throws if an option has a value other than the given choices, eg. a typo from the CLI.
+ *
+ * @param name - The name of the option, eg. `hashEncoding`.
+ * @param value - The value of the option, undefined to use its default.
+ * @param choices - The allowed values.
+ */
+const validateChoice = (
+  name: string,
+  value: unknown,
+  choices: readonly string[],
+) => {
+  if (value !== undefined && !choices.includes(value as string)) {
+    throw new Error(
+      `Unknown ${name} "${value}", use ${
+        choices.slice(0, -1).map((choice) => `"${choice}"`).join(", ")
+      } or "${choices.at(-1)}"`,
+    );
+  }
+};
+
+/**
+ * Replaces the placeholders of a naming template for a name.
+ *
+ * @param template - The template, eg. `[name]__[hash:5]`.
+ * @param value - The original value being converted, eg. `.button`.
+ * @param category - The category of the value.
+ * @param context - The file, index and hash function of the value.
+ * @returns The name built from the template.
+ */
+const applyTemplate = (
+  template: string,
+  value: string,
+  category: keyof ConversionTables,
+  { file, index, hash }: {
+    file?: string;
+    index: number;
+    hash: (length?: number) => string;
+  },
+): string =>
+  template.replace(
+    TEMPLATE_PLACEHOLDER_REGEX,
+    (_, placeholder: string, length?: string) => {
+      switch (placeholder) {
+        case "name": // eg. ".md:flex" -> "md_flex"
+          return (isSelectorCategory(category) ? value.slice(1) : value) // <- Remove the leading . or #
+            .replace(/[^\w\u0080-\uffff-]/g, "_");
+        case "hash":
+          return hash(length ? Number(length) : undefined);
+        case "file": // eg. "src/button.module.css" -> "button"
+          return (file ?? "").split(/[\\/]/).pop()!.replace(/\..*$/, "")
+            .replace(/[^\w\u0080-\uffff-]/g, "_");
+        case "index":
+          return String(index);
+        default:
+          return CATEGORY_NAME_KINDS[category];
+      }
+    },
+  );
+
+/**
+ * Checks if a name is a valid CSS identifier that needs no escaping.
+ *
+ * @param name - The name to check.
+ * @returns `true` if the name is a valid CSS identifier, `false` otherwise.
+ */
+const isValidIdentifier = (name: string) =>
+  /^(?:--|-?[a-zA-Z_\u0080-\uffff])[\w\u0080-\uffff-]*$/.test(name);
+
 /**
  * Creates a conversion function based on the specified mode.
  *
- * @param mode - The conversion mode: 'hash', 'minimal', or 'debug'.
+ * @param mode - The conversion mode: 'hash', 'minimal', 'debug', 'template', or a function giving the new names.
  * @param debugSymbol - Symbol used for debugging (only applicable in 'debug' mode).
  * @param prefix - Prefix to display after the debug symbol in debug mode.
  * @param suffix - Suffix to append after the converted value in debug mode.
  * @param seed - Optional numeric seed used for hashing in 'hash' mode.
+ * @param alphabet - The expanded alphabet of the names in 'minimal' mode.
+ * @param reservedNames - Names (exact strings or patterns) that are never generated.
+ * @param hashOptions - The length, encoding and algorithm of the hashes, and how to handle collisions in 'hash' mode.
+ * @param templateOptions - The pattern of the names in 'template' mode and the category they belong to.
  * @returns A function that converts a string using the given mode.
  */
 const createConversionFunction = (
-  mode: "hash" | "minimal" | "debug",
+  mode: "hash" | "minimal" | "debug" | "template" | NamingFunction,
   debugSymbol: string,
   prefix: string,
   suffix: string,
   seed?: number,
+  alphabet?: string,
+  reservedNames: (string | RegExp)[] = [],
+  hashOptions: {
+    length?: number;
+    encoding?: HashEncoding;
+    algorithm?: HashAlgorithm;
+    collision?: "lengthen" | "resalt";
+  } = {},
+  templateOptions: {
+    template?: string;
+    category?: keyof ConversionTables;
+  } = {},
 ): (
   value: string,
   conversionTable: Record<string, string>,
@@ -217,8 +838,80 @@ const createConversionFunction = (
       originalValue: string,
       valueToSave: string,
     ) => string;
+
+    /**
+     * Callback function to handle a new value whose hash is already used by another value of the conversion table.
+     *
+     * @param originalValue - The original value (not escaped) being converted.
+     * @param collidingValue - The value (escaped) that is already used by the other value.
+     * @param convertToValue - The value (escaped) to which the original value is converted instead.
+     */
+    onCollision?: (
+      originalValue: string,
+      collidingValue: string,
+      convertToValue: string,
+    ) => void;
+
+    /**
+     * The file being transformed, used by the `[file]` placeholder in 'template' mode and by naming functions.
+     */
+    file?: string;
   },
 ) => string => {
+  if (typeof mode === "function") {
+    const { category = "classes" } = templateOptions;
+    let namingCounter = 0;
+    return (
+      value: string,
+      conversionTable: Record<string, string>,
+      options?: {
+        onExistenceFound?: (
+          originalValue: string,
+          convertToValue: string,
+        ) => string;
+        onNewValueBeforeAdd?: (
+          originalValue: string,
+          valueToSave: string,
+        ) => string;
+        file?: string;
+      },
+    ) => {
+      const escaped = cssEscape(value);
+      if (conversionTable[escaped]) {
+        const convertToValue = conversionTable[escaped];
+        if (options?.onExistenceFound) {
+          return options.onExistenceFound(value, convertToValue);
+        }
+        return convertToValue;
+      }
+      const name = mode(
+        isSelectorCategory(category) ? value.slice(1) : value, // <- Remove the leading . or #
+        {
+          kind: CATEGORY_NAME_KINDS[category],
+          file: options?.file,
+          index: namingCounter++,
+          table: conversionTable,
+        },
+      );
+      if (typeof name !== "string" || name === "") {
+        throw new Error(
+          `The naming function gives ${
+            JSON.stringify(name)
+          } for "${value}", expected a non-empty string`,
+        );
+      }
+      // Number the name if it is reserved or already used by the table
+      return addUnusedValue(
+        value,
+        conversionTable,
+        (attempt) =>
+          prefix + name + suffix + (attempt === 0 ? "" : `-${attempt}`),
+        reservedNames,
+        options?.onNewValueBeforeAdd,
+      );
+    };
+  }
+
   switch (mode) {
     case "minimal": {
       let minimalCounter = 0;
@@ -244,14 +937,16 @@ const createConversionFunction = (
           }
           return convertToValue;
         }
-        const newVal = prefix + numberToLetters(minimalCounter) + suffix;
-        minimalCounter++;
-        conversionTable[escaped] = cssEscape(
-          options?.onNewValueBeforeAdd
-            ? options.onNewValueBeforeAdd(value, newVal)
-            : newVal,
+        // Skip the reserved names and the names already used by the table, eg. from a preloaded table
+        return addUnusedValue(
+          value,
+          conversionTable,
+          () =>
+            prefix + numberToLetters(minimalCounter++, alphabet) +
+            suffix,
+          reservedNames,
+          options?.onNewValueBeforeAdd,
         );
-        return newVal;
       };
     }
     case "debug": {
@@ -277,17 +972,26 @@ const createConversionFunction = (
           }
           return convertToValue;
         }
-        const newVal = debugSymbol + prefix + value + suffix;
-        conversionTable[escaped] = cssEscape(
-          options?.onNewValueBeforeAdd
-            ? options.onNewValueBeforeAdd(value, newVal)
-            : newVal,
+        // Number the name if it is reserved or already used by the table
+        return addUnusedValue(
+          value,
+          conversionTable,
+          (attempt) =>
+            debugSymbol + prefix + value + suffix +
+            (attempt === 0 ? "" : `-${attempt}`),
+          reservedNames,
+          options?.onNewValueBeforeAdd,
         );
-        return newVal;
       };
     }
     case "hash": {
       const localSeed = seed;
+      const {
+        length = 8,
+        encoding = "hex",
+        algorithm = "xxh32",
+        collision = "lengthen",
+      } = hashOptions;
       return (
         value: string,
         conversionTable: Record<string, string>,
@@ -300,6 +1004,11 @@ const createConversionFunction = (
             originalValue: string,
             valueToSave: string,
           ) => string;
+          onCollision?: (
+            originalValue: string,
+            collidingValue: string,
+            convertToValue: string,
+          ) => void;
         },
       ) => {
         const escaped = cssEscape(value);
@@ -310,13 +1019,86 @@ const createConversionFunction = (
           }
           return convertToValue;
         }
-        const hashValue = prefix + generateHash(value, localSeed) + suffix;
-        conversionTable[escaped] = cssEscape(
-          options?.onNewValueBeforeAdd
-            ? options.onNewValueBeforeAdd(value, hashValue)
-            : hashValue,
+        const saltedSeed = (salt: number) =>
+          salt === 0 ? localSeed : (localSeed ?? 0) + salt;
+        // Lengthen or re-salt the hash if it is already used by the table, always re-salt
+        // a reserved hash, as a longer hash still starts with it, eg. for /^a/
+        return addUnusedValue(
+          value,
+          conversionTable,
+          (attempt, reservedAttempts) =>
+            prefix +
+            (collision === "lengthen" && typeof algorithm === "string"
+              ? generateHash(value, saltedSeed(reservedAttempts), {
+                length: length + attempt - reservedAttempts,
+                encoding,
+                algorithm,
+              })
+              : generateHash(value, saltedSeed(attempt), {
+                length,
+                encoding,
+                algorithm,
+              })) +
+            suffix,
+          reservedNames,
+          options?.onNewValueBeforeAdd,
+          options?.onCollision &&
+            ((collidingValue, convertToValue) =>
+              options.onCollision?.(value, collidingValue, convertToValue)),
+        );
+      };
+    }
+    case "template": {
+      const { template = "[name]__[hash:5]", category = "classes" } =
+        templateOptions;
+      validateTemplate(template);
+      let templateCounter = 0;
+      return (
+        value: string,
+        conversionTable: Record<string, string>,
+        options?: {
+          onExistenceFound?: (
+            originalValue: string,
+            convertToValue: string,
+          ) => string;
+          onNewValueBeforeAdd?: (
+            originalValue: string,
+            valueToSave: string,
+          ) => string;
+          file?: string;
+        },
+      ) => {
+        const escaped = cssEscape(value);
+        if (conversionTable[escaped]) {
+          const convertToValue = conversionTable[escaped];
+          if (options?.onExistenceFound) {
+            return options.onExistenceFound(value, convertToValue);
+          }
+          return convertToValue;
+        }
+        const name = applyTemplate(template, value, category, {
+          file: options?.file,
+          index: templateCounter++,
+          hash: (length) =>
+            generateHash(value, seed, {
+              ...hashOptions,
+              length: length ?? hashOptions.length,
+            }),
+        });
+        if (!isValidIdentifier(name)) {
+          throw new Error(
+            `The template "${template}" gives "${name}" for "${value}", which is not a valid CSS identifier`,
+          );
+        }
+        // Number the name if it is reserved or already used by the table
+        return addUnusedValue(
+          value,
+          conversionTable,
+          (attempt) =>
+            prefix + name + suffix + (attempt === 0 ? "" : `-${attempt}`),
+          reservedNames,
+          options?.onNewValueBeforeAdd,
         );
-        return hashValue;
       };
     }
     default:
@@ -325,127 +1107,1031 @@ const createConversionFunction = (
 };
 
 /**
- * Builds a visitor object for processing selectors and dashed identifiers using lightningcss.
+ * Builds a visitor object for processing selectors, dashed identifiers and other renamable names using lightningcss.
  *
- * @param selectorConvertFunc - The conversion function to apply to selector names.
- * @param identConvertFunc - The conversion function to apply to identifier names.
- * @param selectorConversionTable - A table mapping original selectors to converted selectors.
- * @param identConversionTable - A table mapping original identifiers to converted identifiers.
- * @param ignorePatterns - Patterns for selectors and custom properties to ignore during transformation.
+ * @param convertFuncs - The conversion functions to apply, one per category.
+ * @param conversionTables - The conversion tables to read from and write to, one per category.
+ * @param ignorePatterns - Patterns for names to ignore during transformation.
+ * @param renameGridAreas - Whether to rename grid area and grid line names.
+ * @param renameParts - Whether to rename shadow part names.
+ * @param renameClasses - Whether to rename class names.
+ * @param renameIds - Whether to rename id names.
+ * @param renameIdents - Whether to rename custom property names.
+ * @param strict - Whether to throw on unknown selector parts instead of reporting a warning.
+ * @param onWarning - Called with the warnings found while visiting, located at the rule they appear in.
+ * @param createError - Creates the error thrown in strict mode, located at the rule being visited.
  * @returns A visitor object compatible with lightningcss.
  */
 const INTERNAL_buildVisitor = (
-  selectorConvertFunc: ReturnType<typeof createConversionFunction>,
-  identConvertFunc: ReturnType<typeof createConversionFunction>,
-  selectorConversionTable: ConversionTable,
-  identConversionTable: ConversionTable,
+  convertFuncs: Record<
+    keyof ConversionTables,
+    ReturnType<typeof createConversionFunction>
+  >,
+  conversionTables: Required<ConversionTables>,
   ignorePatterns?: TransformProps["ignorePatterns"],
+  renameGridAreas = false,
+  renameParts = false,
+  renameClasses = true,
+  renameIds = true,
+  renameIdents = true,
+  strict = false,
+  onWarning?: (warning: TransformWarning) => void,
+  createError: (message: string, line?: number, column?: number) => Error = (
+    message,
+  ) => new Error(message),
 ) => {
-  // Normalize ignorePatterns to handle both array and object formats
-  let selectorPatterns: (string | RegExp)[] | undefined;
-  let identPatterns: (string | RegExp)[] | undefined;
+  const patterns = normalizeIgnorePatterns(ignorePatterns);
 
-  if (Array.isArray(ignorePatterns)) {
-    // If ignorePatterns is an array, use it for both selectors and identifiers
-    selectorPatterns = ignorePatterns;
-    identPatterns = ignorePatterns;
-  } else if (ignorePatterns) {
-    // If ignorePatterns is an object, extract the separate patterns
-    selectorPatterns = ignorePatterns.selectors;
-    identPatterns = ignorePatterns.idents;
-  }
+  /**
+   * The location of the rule being visited, lightningcss does not locate the values inside it.
+   */
+  let currentLocation: { line: number; column: number } | undefined;
 
-  return {
-    Selector(selector: Selector): Selector | Selector[] {
-      return INTERNAL_handleSelector(
-        selector,
-        selectorConversionTable,
-        (value: string, conversionTable: Record<string, string>, ...props) => {
-          const escapedValue = cssEscape(value);
-          if (selectorConversionTable[escapedValue]) {
-            return parseSelectorComponent( // <- Allow to convert to complex selector
-              cssUnescape(selectorConversionTable[escapedValue]),
-            );
-          }
-          return selectorConvertFunc(value, conversionTable, ...props);
-        },
-        selectorPatterns,
+  /**
+   * Messages of the warnings already reported, a name is usually found many times.
+   */
+  const reportedWarnings = new Set<string>();
+
+  /**
+   * Reports a warning once, located at the rule being visited.
+   */
+  const warn = (warning: TransformWarning) => {
+    if (!onWarning || reportedWarnings.has(warning.message)) {
+      return;
+    }
+    reportedWarnings.add(warning.message);
+    onWarning({
+      ...warning,
+      ...(currentLocation && {
+        line: currentLocation.line + 1, // <- lightningcss lines start at 0
+        column: currentLocation.column,
+      }),
+    });
+  };
+
+  /**
+   * Throws on unhandled selector parts in strict mode, otherwise reports them as warnings.
+   */
+  const warnSelector = (warning: TransformWarning) => {
+    if (strict && warning.code === "unhandled-selector") {
+      throw createError(
+        `${warning.message} Disable the \`strict\` option to keep it as is.`,
+        currentLocation && currentLocation.line + 1,
+        currentLocation?.column,
       );
+    }
+    warn(warning);
+  };
+
+  /**
+   * Reports a name whose hash is already used by another name of the category's table.
+   */
+  const warnCollision = (category: keyof ConversionTables) =>
+  (
+    originalValue: string,
+    collidingValue: string,
+    convertToValue: string,
+  ) => {
+    const table = conversionTables[category];
+    const collidingName = Object.keys(table).find((name) =>
+      table[name] === collidingValue
+    );
+    warn({
+      code: "hash-collision",
+      message: `"${originalValue}" has the same hash as "${
+        cssUnescape(collidingName ?? "")
+      }" in the ${category} table, it is converted to "${
+        cssUnescape(convertToValue)
+      }" instead.`,
+      ...(isSelectorCategory(category)
+        ? { selector: originalValue }
+        : { ident: originalValue }),
+    });
+  };
+
+  /**
+   * Converts a name of the given category unless it matches one of the category's ignore patterns.
+   */
+  const convertName = (
+    category: Exclude<keyof ConversionTables, "classes" | "ids">,
+    name: string,
+  ): string => {
+    if (category === "idents" && !renameIdents) {
+      return name;
+    }
+    if (matchesAnyPattern(name, patterns[category])) {
+      warn({
+        code: "ignored-name",
+        message:
+          `"${name}" matches an ignore pattern of ${category}, it is kept as is.`,
+        ident: name,
+      });
+      return name;
+    }
+    return convertFuncs[category](name, conversionTables[category], {
+      onCollision: warnCollision(category),
+    });
+  };
+
+  /**
+   * Converts an animation name referenced by `animation`/`animation-name` in place.
+   */
+  const convertAnimationName = (name: AnimationName) => {
+    if (name.type !== "none") {
+      name.value = convertName("keyframes", name.value);
+    }
+  };
+
+  /**
+   * Converts every segment of a (possibly dotted) layer name, eg. `components.button`.
+   */
+  const convertLayerName = (name: string[]): string[] =>
+    name.map((segment) => convertName("layers", segment));
+
+  /**
+   * Converts the names of a `container-name` value in place.
+   */
+  const convertContainerNameList = (names: ContainerNameList) => {
+    if (names.type === "names") {
+      names.value = names.value.map((name) => convertName("containers", name));
+    }
+  };
+
+  /**
+   * Converts a counter name unless it is one of the names reserved by CSS.
+   */
+  const convertCounterName = (name: string): string =>
+    RESERVED_COUNTER_NAMES.has(name) ? name : convertName("counters", name);
+
+  /**
+   * Converts a counter style name unless it is predefined by CSS.
+   */
+  const convertCounterStyleName = (name: string): string =>
+    PREDEFINED_COUNTER_STYLES.has(name) ? name : convertCounterName(name);
+
+  /**
+   * Converts the counter names of a `counter-reset`/`counter-increment`/`counter-set` value in place.
+   */
+  const convertCounterTokens = (tokens: TokenOrValue[]) => {
+    tokens.forEach((token) => {
+      if (token.type === "token" && token.value.type === "ident") {
+        token.value.value = convertCounterName(token.value.value);
+      } else if (token.type === "function") { // eg. counter-reset: reversed(item);
+        convertCounterTokens(token.value.arguments);
+      }
+    });
+  };
+
+  /**
+   * Converts the counter style name of a `list-style-type` value in place.
+   */
+  const convertListStyleType = (listStyleType: ListStyleType) => {
+    if (
+      listStyleType.type === "counter-style" &&
+      listStyleType.value.type === "name"
+    ) {
+      listStyleType.value.value = convertCounterStyleName(
+        listStyleType.value.value,
+      );
+    }
+  };
+
+  /**
+   * Converts the arguments of a `counter()`/`counters()` function in place.
+   * The first identifier is the counter name, a following one is the counter style.
+   */
+  const convertCounterFunction = (fn: LightningFunction) => {
+    let isCounterName = true;
+    fn.arguments.forEach((token) => {
+      if (token.type === "token" && token.value.type === "ident") {
+        token.value.value = isCounterName
+          ? convertCounterName(token.value.value)
+          : convertCounterStyleName(token.value.value);
+        isCounterName = false;
+      }
+    });
+    return { type: "function" as const, value: fn };
+  };
+
+  /**
+   * Converts a grid area or grid line name.
+   * Implicit area lines keep their suffix, eg. `sidebar-start` -> `<sidebar>-start`.
+   */
+  const convertGridName = (name: string): string => {
+    const [, area, suffix] = name.match(/^(.+)(-start|-end)$/) ?? [];
+    if (area && suffix) {
+      return `${convertName("gridAreas", area)}${suffix}`;
+    }
+    return convertName("gridAreas", name);
+  };
+
+  /**
+   * Converts the area names of a `grid-template-areas` value in place.
+   */
+  const convertGridTemplateAreas = (areas: GridTemplateAreas) => {
+    if (areas.type === "areas") {
+      areas.areas = areas.areas.map((area) =>
+        area === null ? area : convertGridName(area) // <- null is the `.` token
+      );
+    }
+  };
+
+  /**
+   * Converts the line names of a `grid-template-rows`/`grid-template-columns` value in place.
+   */
+  const convertTrackSizing = (trackSizing: TrackSizing) => {
+    if (trackSizing.type !== "track-list") {
+      return;
+    }
+    const convertLineNames = (lineNames: string[][]) =>
+      lineNames.map((names) => names.map(convertGridName));
+    trackSizing.lineNames = convertLineNames(trackSizing.lineNames);
+    trackSizing.items.forEach((item) => {
+      if (item.type === "track-repeat") { // eg. repeat(2, [row] 1fr)
+        item.value.lineNames = convertLineNames(item.value.lineNames);
+      }
+    });
+  };
+
+  /**
+   * Converts the name referenced by a grid placement value in place.
+   */
+  const convertGridLine = (gridLine: GridLine) => {
+    if (gridLine.type !== "auto" && gridLine.name) {
+      gridLine.name = convertGridName(gridLine.name);
+    }
+  };
+
+  /**
+   * Converts a view transition name or class unless it is a keyword.
+   */
+  const convertViewTransitionName = (name: string): string =>
+    RESERVED_VIEW_TRANSITION_NAMES.has(name)
+      ? name
+      : convertName("viewTransitions", name);
+
+  /**
+   * Dashed idents that are not custom properties, in the order lightningcss will visit them.
+   *
+   * The `DashedIdent` visitor has no context of its own, but lightningcss visits the dashed
+   * idents of a rule right after the rule itself, so the rule visitors queue the names here
+   * and the `DashedIdent` visitor converts them with the right table.
+   */
+  let pendingDashedIdents: {
+    ident: string;
+    category: "customMedia" | "customSelectors";
+  }[] = [];
+
+  /**
+   * Collects the custom media names a media condition refers to, eg. `(--tablet)`.
+   */
+  const collectCustomMediaNames = (
+    condition: MediaCondition | null | undefined,
+  ): string[] => {
+    switch (condition?.type) {
+      case "feature": {
+        const { name } = condition.value;
+        return condition.value.type === "boolean" && name.startsWith("--")
+          ? [name]
+          : [];
+      }
+      case "not":
+        return collectCustomMediaNames(condition.value);
+      case "operation":
+        return condition.conditions.flatMap(collectCustomMediaNames);
+      default:
+        return [];
+    }
+  };
+
+  /**
+   * Collects the dashed idents of a token list, eg. the prelude of an unknown at-rule.
+   */
+  const collectDashedIdents = (tokens: TokenOrValue[]): string[] =>
+    tokens.flatMap((token) => {
+      if (token.type === "dashed-ident") {
+        return [token.value];
+      }
+      if (token.type === "function") {
+        return collectDashedIdents(token.value.arguments);
+      }
+      return [];
+    });
+
+  /**
+   * Converts a selector with the class and id conversion tables.
+   */
+  const convertSelector = (selector: Selector): Selector | Selector[] =>
+    INTERNAL_handleSelector(
+      selector,
+      conversionTables,
+      (value: string, conversionTable: Record<string, string>, options) => {
+        const category = value.startsWith("#") ? "ids" : "classes";
+        if (!(category === "ids" ? renameIds : renameClasses)) {
+          return value;
+        }
+        const escapedValue = cssEscape(value);
+        if (conversionTable[escapedValue]) {
+          return parseSelectorComponent( // <- Allow to convert to complex selector
+            cssUnescape(conversionTable[escapedValue]),
+          );
+        }
+        return convertFuncs[category](value, conversionTable, {
+          ...options,
+          onCollision: warnCollision(category),
+        });
+      },
+      patterns,
+      {
+        viewTransitions: convertViewTransitionName,
+        customSelectors: (name) => convertName("customSelectors", name),
+        parts: renameParts ? (name) => convertName("parts", name) : undefined,
+        selectorTokens: convertSelectorTokens,
+      },
+      warnSelector,
+    );
+
+  /**
+   * Converts the dashed idents of a raw value, eg. `var(--gap, 1px)`.
+   */
+  const convertRawValueDashedIdents = (value: string): string => {
+    const { code } = lightningcssTransform({
+      filename: "style.css",
+      code: new TextEncoder().encode(
+        `@tokens ${value};`, //? Preludes of unknown at-rules are kept as raw tokens
+      ),
+      minify: true,
+      visitor: {
+        DashedIdent(ident) {
+          return `--${convertName("idents", ident.slice(2))}`;
+        },
+      },
+    });
+    return new TextDecoder().decode(code).replace(/^@tokens\s*|;$/g, "");
+  };
+
+  /**
+   * Converts the selectors of the `selector()` functions and the dashed idents of the
+   * declaration values in a supports condition in place, eg. `@supports selector(.a:has(.b))`.
+   *
+   * @returns Whether the condition contains anything to convert.
+   */
+  const convertSupportsCondition = (condition: SupportsCondition): boolean => {
+    switch (condition.type) {
+      case "not":
+        return convertSupportsCondition(condition.value);
+      case "and":
+      case "or":
+        return condition.value.map(convertSupportsCondition).includes(true);
+      case "selector": { // <- lightningcss keeps the selector as a raw string
+        const selector = convertSelector(
+          parseSelectorComponent(condition.value),
+        );
+        condition.value = stringifySelectorComponentComplex(selector.flat());
+        return true;
+      }
+      case "declaration": { // eg. @supports (color: var(--theme))
+        //? The property name is a dashed ident visited by lightningcss, but not the value
+        if (!condition.value.includes("--")) {
+          return false;
+        }
+        condition.value = convertRawValueDashedIdents(condition.value);
+        return true;
+      }
+      default:
+        return false;
+    }
+  };
+
+  /**
+   * Converts the class and id names of a selector given as raw tokens,
+   * eg. the definition of a `@custom-selector`.
+   */
+  const convertSelectorTokens = (tokens: TokenOrValue[]): TokenOrValue[] => {
+    //? Older lightningcss versions write a space after every delimiter, eg. `. a`,
+    //? so write each converted name as one raw token there
+    const rawNames = !keepsTokenWhitespace();
+    const output: TokenOrValue[] = [];
+    tokens.forEach((token) => {
+      const previous = output.at(-1);
+      let component: SelectorComponent | undefined;
+      if (token.type === "function") { // eg. :is(.a, .b)
+        token.value.arguments = convertSelectorTokens(token.value.arguments);
+      } else if (
+        token.type === "token" && token.value.type === "ident" &&
+        previous?.type === "token" && previous.value.type === "delim" &&
+        previous.value.value === "."
+      ) { // eg. .title
+        output.pop();
+        component = { type: "class", name: token.value.value };
+      } else if (
+        token.type === "token" &&
+        (token.value.type === "id-hash" || token.value.type === "hash")
+      ) { // eg. #header
+        component = { type: "id", name: token.value.value };
+      }
+
+      if (!component) {
+        output.push(token);
+        return;
+      }
+
+      const converted = convertSelector([component]).flat();
+      const [first] = converted;
+      if (rawNames) { //? White-space tokens are written as is
+        output.push({
+          type: "token",
+          value: {
+            type: "white-space",
+            value: stringifySelectorComponentComplex(converted),
+          },
+        });
+      } else if (converted.length === 1 && first.type === "class") {
+        output.push(
+          { type: "token", value: { type: "delim", value: "." } },
+          { type: "token", value: { type: "ident", value: first.name } },
+        );
+      } else if (converted.length === 1 && first.type === "id") {
+        output.push({
+          type: "token",
+          value: { type: "id-hash", value: first.name },
+        });
+      } else { // <- Converted to a complex selector
+        output.push(
+          ...parseTokens(stringifySelectorComponentComplex(converted)),
+        );
+      }
+    });
+    return output;
+  };
+
+  const gridDeclarationVisitor = {
+    "grid-template-areas"(declaration) { // eg. grid-template-areas: "header" "main";
+      if (declaration.property === "grid-template-areas") {
+        convertGridTemplateAreas(declaration.value);
+      }
+      return declaration;
+    },
+    "grid-template-rows"(declaration) { // eg. grid-template-rows: [top] 1fr [bottom];
+      if (declaration.property === "grid-template-rows") {
+        convertTrackSizing(declaration.value);
+      }
+      return declaration;
+    },
+    "grid-template-columns"(declaration) { // eg. grid-template-columns: [sidebar-start] 1fr;
+      if (declaration.property === "grid-template-columns") {
+        convertTrackSizing(declaration.value);
+      }
+      return declaration;
+    },
+    "grid-template"(declaration) { // eg. grid-template: "a b" 1fr / auto;
+      if (declaration.property === "grid-template") {
+        convertTrackSizing(declaration.value.rows);
+        convertTrackSizing(declaration.value.columns);
+        convertGridTemplateAreas(declaration.value.areas);
+      }
+      return declaration;
+    },
+    grid(declaration) { // eg. grid: "a b" 1fr / auto;
+      if (declaration.property === "grid") {
+        convertTrackSizing(declaration.value.rows);
+        convertTrackSizing(declaration.value.columns);
+        convertGridTemplateAreas(declaration.value.areas);
+      }
+      return declaration;
+    },
+    "grid-area"(declaration) { // eg. grid-area: header;
+      if (declaration.property === "grid-area") {
+        convertGridLine(declaration.value.rowStart);
+        convertGridLine(declaration.value.columnStart);
+        convertGridLine(declaration.value.rowEnd);
+        convertGridLine(declaration.value.columnEnd);
+      }
+      return declaration;
+    },
+    "grid-row"(declaration) { // eg. grid-row: sidebar-start / sidebar-end;
+      if (declaration.property === "grid-row") {
+        convertGridLine(declaration.value.start);
+        convertGridLine(declaration.value.end);
+      }
+      return declaration;
+    },
+    "grid-column"(declaration) { // eg. grid-column: main;
+      if (declaration.property === "grid-column") {
+        convertGridLine(declaration.value.start);
+        convertGridLine(declaration.value.end);
+      }
+      return declaration;
+    },
+    "grid-row-start"(declaration) { // eg. grid-row-start: span header;
+      if (declaration.property === "grid-row-start") {
+        convertGridLine(declaration.value);
+      }
+      return declaration;
+    },
+    "grid-row-end"(declaration) {
+      if (declaration.property === "grid-row-end") {
+        convertGridLine(declaration.value);
+      }
+      return declaration;
+    },
+    "grid-column-start"(declaration) {
+      if (declaration.property === "grid-column-start") {
+        convertGridLine(declaration.value);
+      }
+      return declaration;
+    },
+    "grid-column-end"(declaration) {
+      if (declaration.property === "grid-column-end") {
+        convertGridLine(declaration.value);
+      }
+      return declaration;
+    },
+  } satisfies Visitor<CustomAtRules>["Declaration"];
+
+  const visitor = {
+    Selector(selector: Selector): Selector | Selector[] {
+      return convertSelector(selector);
     },
     DashedIdent(ident: string) {
       const value = ident.slice(2); // remove the '--' prefix
-
-      // Check if this custom property should be ignored based on pattern
-      if (identPatterns && matchesAnyPattern(value, identPatterns)) {
-        // Return the original value without transformation
-        return ident;
+      if (pendingDashedIdents[0]?.ident === ident) {
+        const { category } = pendingDashedIdents.shift()!;
+        return `--${convertName(category, value)}`;
       }
-
-      return `--${identConvertFunc(value, identConversionTable)}`;
+      return `--${convertName("idents", value)}`; // eg. var(--gap), env(--gap)
+    },
+    MediaQuery(query) { // eg. @media (--tablet) and (min-width: var(--gap))
+      pendingDashedIdents = collectCustomMediaNames(query.condition).map((
+        ident,
+      ) => ({ ident, category: "customMedia" }));
+    },
+    Rule: {
+      keyframes(rule) { // eg. @keyframes fade-in { ... }
+        rule.value.name.value = convertName("keyframes", rule.value.name.value);
+        return rule;
+      },
+      "layer-statement"(rule) { // eg. @layer reset, components.button;
+        rule.value.names = rule.value.names.map(convertLayerName);
+        return rule;
+      },
+      "layer-block"(rule) { // eg. @layer components { ... }
+        if (rule.value.name) { // <- anonymous layers have no name
+          rule.value.name = convertLayerName(rule.value.name);
+        }
+        return rule;
+      },
+      import(rule) { // eg. @import url(base.css) layer(base);
+        //? lightningcss gives an anonymous `layer` as null and returning the rule would
+        //? drop it, so leave the rule untouched, a supports() condition matches either way
+        if (rule.value.layer === null) {
+          return;
+        }
+        const hasSupportsConversion = rule.value.supports
+          ? convertSupportsCondition(rule.value.supports) // eg. supports(selector(.a))
+          : false;
+        if (rule.value.layer) {
+          rule.value.layer = convertLayerName(rule.value.layer);
+          return rule;
+        }
+        if (hasSupportsConversion) {
+          return rule;
+        }
+      },
+      supports(rule) { // eg. @supports selector(.card:has(.title)) { ... }
+        if (convertSupportsCondition(rule.value.condition)) {
+          return rule;
+        }
+      },
+      "counter-style"(rule) { // eg. @counter-style thumbs { ... }
+        rule.value.name = convertCounterStyleName(rule.value.name);
+        rule.value.declarations.declarations?.forEach((declaration) => {
+          if (declaration.property !== "custom") {
+            return;
+          }
+          const { name, value } = declaration.value;
+          if (name === "fallback") { // eg. fallback: other-style;
+            value.forEach((token) => {
+              if (token.type === "token" && token.value.type === "ident") {
+                token.value.value = convertCounterStyleName(token.value.value);
+              }
+            });
+          } else if (name === "system") { // eg. system: extends other-style;
+            const idents = value.filter((token) =>
+              token.type === "token" && token.value.type === "ident"
+            );
+            const [system, base] = idents;
+            if (
+              system?.type === "token" && system.value.type === "ident" &&
+              system.value.value === "extends" &&
+              base?.type === "token" && base.value.type === "ident"
+            ) {
+              base.value.value = convertCounterStyleName(base.value.value);
+            }
+          }
+        });
+        return rule;
+      },
+      "custom-media"(rule) { // eg. @custom-media --tablet (min-width: 768px);
+        pendingDashedIdents = [
+          rule.value.name,
+          ...rule.value.query.mediaQueries.flatMap((query) =>
+            collectCustomMediaNames(query.condition)
+          ),
+        ].map((ident) => ({ ident, category: "customMedia" }));
+      },
+      unknown: {
+        "custom-media"(rule) { // <- When the `customMedia` draft is disabled
+          pendingDashedIdents = collectDashedIdents(rule.prelude).map((
+            ident,
+          ) => ({ ident, category: "customMedia" }));
+        },
+        "custom-selector"(rule) { // eg. @custom-selector :--heading h1, .title;
+          pendingDashedIdents = collectDashedIdents(rule.prelude).map((
+            ident,
+          ) => ({ ident, category: "customSelectors" }));
+          //? Older lightningcss versions drop the space between the name and a selector
+          //? starting with a delimiter, eg. `:--heading .title`, so put it back
+          const prelude = convertSelectorTokens(rule.prelude);
+          const nameIndex = prelude.findIndex((token) =>
+            token.type === "dashed-ident"
+          );
+          const next = prelude[nameIndex + 1];
+          if (
+            nameIndex !== -1 &&
+            !(next?.type === "token" && next.value.type === "white-space" &&
+              next.value.value.trim() === "") // <- Not a converted name
+          ) {
+            prelude.splice(nameIndex + 1, 0, {
+              type: "token",
+              value: { type: "white-space", value: " " },
+            });
+          }
+          const { block: _block, ...value } = rule; // <- A null block fails to deserialize
+          return { type: "unknown", value: { ...value, prelude } };
+        },
+      },
+      container(rule) { // eg. @container card (min-width: 30rem) { ... }
+        if (rule.value.name) { // <- unnamed container queries match any container
+          rule.value.name = convertName("containers", rule.value.name);
+          return rule;
+        }
+      },
+    },
+    Declaration: {
+      animation(declaration) { // eg. animation: fade-in 1s;
+        if (declaration.property === "animation") {
+          declaration.value.forEach((animation) =>
+            convertAnimationName(animation.name)
+          );
+        }
+        return declaration;
+      },
+      "animation-name"(declaration) { // eg. animation-name: fade-in, slide;
+        if (declaration.property === "animation-name") {
+          declaration.value.forEach(convertAnimationName);
+        }
+        return declaration;
+      },
+      "container-name"(declaration) { // eg. container-name: card sidebar;
+        if (declaration.property === "container-name") {
+          convertContainerNameList(declaration.value);
+        }
+        return declaration;
+      },
+      container(declaration) { // eg. container: card / inline-size;
+        if (declaration.property === "container") {
+          convertContainerNameList(declaration.value.name);
+        }
+        return declaration;
+      },
+      "list-style-type"(declaration) { // eg. list-style-type: thumbs;
+        if (declaration.property === "list-style-type") {
+          convertListStyleType(declaration.value);
+        }
+        return declaration;
+      },
+      "list-style"(declaration) { // eg. list-style: thumbs inside;
+        if (declaration.property === "list-style") {
+          convertListStyleType(declaration.value.listStyleType);
+        }
+        return declaration;
+      },
+      "view-transition-name"(declaration) { // eg. view-transition-name: hero;
+        if (declaration.property === "view-transition-name") {
+          declaration.value = convertViewTransitionName(declaration.value);
+        }
+        return declaration;
+      },
+      "view-transition-class"(declaration) { // eg. view-transition-class: card;
+        if (
+          declaration.property === "view-transition-class" &&
+          declaration.value !== "none"
+        ) {
+          declaration.value = declaration.value.map(convertViewTransitionName);
+        }
+        return declaration;
+      },
+      "view-transition-group"(declaration) { // eg. view-transition-group: hero;
+        if (declaration.property === "view-transition-group") {
+          declaration.value = convertViewTransitionName(declaration.value);
+        }
+        return declaration;
+      },
+      custom: {
+        "counter-reset"(property) { // eg. counter-reset: section 1 item;
+          convertCounterTokens(property.value);
+          return { property: "custom", value: property };
+        },
+        "counter-increment"(property) { // eg. counter-increment: section;
+          convertCounterTokens(property.value);
+          return { property: "custom", value: property };
+        },
+        "counter-set"(property) { // eg. counter-set: item 3;
+          convertCounterTokens(property.value);
+          return { property: "custom", value: property };
+        },
+      },
+      ...(renameGridAreas ? gridDeclarationVisitor : {}),
+    },
+    Function: {
+      counter: convertCounterFunction, // eg. counter(section, upper-roman)
+      counters: convertCounterFunction, // eg. counters(item, ".")
     },
   } satisfies Visitor<CustomAtRules>;
+
+  return composeVisitors<CustomAtRules>([
+    {
+      Rule(rule) { // <- Runs first to locate the warnings of every rule
+        if ("value" in rule && rule.value && "loc" in rule.value) {
+          currentLocation = rule.value.loc;
+        }
+      },
+    },
+    visitor,
+  ]);
 };
 
 /**
- * Normalize prefix/suffix options to get separate values for selectors and identifiers
+ * Normalize prefix/suffix options to get separate values for each category
  *
- * @param value - A string or object with selectors/idents properties
+ * @param value - A string or object with per-category properties
  * @param defaultValue - Default value to use if not specified
- * @returns An object with normalized selectors and idents values
+ * @returns An object with normalized values for every category
  */
 const normalizeAffixOptions = (
   value: string | PrefixSuffixOptions | undefined,
   defaultValue = "",
-): { selectors: string; idents: string } => {
+): Record<keyof ConversionTables, string> => {
   if (typeof value === "string" || value === undefined) {
     const stringValue = value || defaultValue;
     return {
-      selectors: stringValue,
+      classes: stringValue,
+      ids: stringValue,
       idents: stringValue,
+      keyframes: stringValue,
+      layers: stringValue,
+      containers: stringValue,
+      counters: stringValue,
+      gridAreas: stringValue,
+      viewTransitions: stringValue,
+      customMedia: stringValue,
+      customSelectors: stringValue,
+      parts: stringValue,
     };
   }
 
   return {
-    selectors: value.selectors ?? defaultValue,
+    classes: value.classes ?? value.selectors ?? defaultValue,
+    ids: value.ids ?? value.selectors ?? defaultValue,
     idents: value.idents ?? defaultValue,
+    keyframes: value.keyframes ?? defaultValue,
+    layers: value.layers ?? defaultValue,
+    containers: value.containers ?? defaultValue,
+    counters: value.counters ?? defaultValue,
+    gridAreas: value.gridAreas ?? defaultValue,
+    viewTransitions: value.viewTransitions ?? defaultValue,
+    customMedia: value.customMedia ?? defaultValue,
+    customSelectors: value.customSelectors ?? defaultValue,
+    parts: value.parts ?? defaultValue,
   };
 };
 
 /**
- * Transforms CSS by processing selectors and dashed identifiers using a conversion mode.
+ * Normalize the mode option to get a separate mode for each category
+ *
+ * @param mode - A mode that applies to all categories, or an object with per-category modes
+ * @returns An object with the mode of every category
+ */
+const normalizeModeOptions = (
+  mode: Mode | ModeOptions = "hash",
+): Record<keyof ConversionTables, Mode> => {
+  if (typeof mode !== "object") {
+    return {
+      classes: mode,
+      ids: mode,
+      idents: mode,
+      keyframes: mode,
+      layers: mode,
+      containers: mode,
+      counters: mode,
+      gridAreas: mode,
+      viewTransitions: mode,
+      customMedia: mode,
+      customSelectors: mode,
+      parts: mode,
+    };
+  }
+
+  return {
+    classes: mode.classes ?? mode.selectors ?? "hash",
+    ids: mode.ids ?? mode.selectors ?? "hash",
+    idents: mode.idents ?? "hash",
+    keyframes: mode.keyframes ?? "hash",
+    layers: mode.layers ?? "hash",
+    containers: mode.containers ?? "hash",
+    counters: mode.counters ?? "hash",
+    gridAreas: mode.gridAreas ?? "hash",
+    viewTransitions: mode.viewTransitions ?? "hash",
+    customMedia: mode.customMedia ?? "hash",
+    customSelectors: mode.customSelectors ?? "hash",
+    parts: mode.parts ?? "hash",
+  };
+};
+
+/**
+ * Splits a `selectors` table saved by an older version into its class and id tables.
+ *
+ * @param table - The selector table, with the `.` or `#` prefix in its keys.
+ * @returns The class table and the id table.
+ */
+const splitSelectorTable = (
+  table: ConversionTable = {},
+): Pick<ConversionTables, "classes" | "ids"> => {
+  const entries = Object.entries(table);
+  return {
+    classes: Object.fromEntries(
+      entries.filter(([name]) => !name.startsWith("\\#")),
+    ),
+    ids: Object.fromEntries(
+      entries.filter(([name]) => name.startsWith("\\#")),
+    ),
+  };
+};
+
+/**
+ * Normalize ignore patterns to get separate patterns for each category
+ *
+ * @param ignorePatterns - An array of patterns that apply to all categories, or an object with per-category patterns
+ * @returns An object with the patterns of every category
+ */
+const normalizeIgnorePatterns = (
+  ignorePatterns: TransformProps["ignorePatterns"],
+): Record<keyof ConversionTables, (string | RegExp)[] | undefined> => {
+  if (Array.isArray(ignorePatterns)) {
+    // If ignorePatterns is an array, use it for all categories
+    return {
+      classes: ignorePatterns,
+      ids: ignorePatterns,
+      idents: ignorePatterns,
+      keyframes: ignorePatterns,
+      layers: ignorePatterns,
+      containers: ignorePatterns,
+      counters: ignorePatterns,
+      gridAreas: ignorePatterns,
+      viewTransitions: ignorePatterns,
+      customMedia: ignorePatterns,
+      customSelectors: ignorePatterns,
+      parts: ignorePatterns,
+    };
+  }
+
+  // If ignorePatterns is an object, extract the separate patterns
+  return {
+    classes: ignorePatterns?.classes ?? ignorePatterns?.selectors,
+    ids: ignorePatterns?.ids ?? ignorePatterns?.selectors,
+    idents: ignorePatterns?.idents,
+    keyframes: ignorePatterns?.keyframes,
+    layers: ignorePatterns?.layers,
+    containers: ignorePatterns?.containers,
+    counters: ignorePatterns?.counters,
+    gridAreas: ignorePatterns?.gridAreas,
+    viewTransitions: ignorePatterns?.viewTransitions,
+    customMedia: ignorePatterns?.customMedia,
+    customSelectors: ignorePatterns?.customSelectors,
+    parts: ignorePatterns?.parts,
+  };
+};
+
+/**
+ * Finds the names that are converted to the same value within a conversion table,
+ * eg. because of a hand-written or outdated preloaded table.
+ *
+ * @param conversionTables - The conversion tables to check.
+ * @returns A warning for each value shared by several names.
+ */
+const findTableConflicts = (
+  conversionTables: Required<ConversionTables>,
+): TransformWarning[] =>
+  Object.entries(conversionTables).flatMap(([category, table]) => {
+    const namesByValue = new Map<string, string[]>();
+    Object.entries(table).forEach(([name, value]) => {
+      namesByValue.set(value, [...namesByValue.get(value) ?? [], name]);
+    });
+    return [...namesByValue].filter(([, names]) => names.length > 1).map((
+      [value, names],
+    ): TransformWarning => ({
+      code: "table-conflict",
+      message: `${
+        names.map((name) => `"${name}"`).join(", ")
+      } are all converted to "${value}" in the ${category} table.`,
+      ...(isSelectorCategory(category)
+        ? { selector: value }
+        : { ident: value }),
+    }));
+  });
+
+/**
+ * Creates the conversion tables and a conversion function for each category,
+ * so they can be shared by the transformation of several files.
  *
  * @param params - Parameters for the transformation.
- * @param params.css - The input CSS as a string.
- * @param params.mode - The conversion mode to use. 'hash' uses xxhash, 'minimal' assigns sequential alphabetical identifiers, and 'debug' prefixes identifiers with a custom debug symbol; defaults to 'hash'.
- * @param params.debugSymbol - The custom debug symbol to prefix in debug mode; defaults to '_' if not provided.
- * @param params.prefix - In debug mode, the prefix to display after the debug symbol; defaults to an empty string.
- * @param params.suffix - In debug mode, the suffix to append after the value; defaults to an empty string.
- * @param params.seed - The custom seed (string or number) for hash mode.
- * @param params.conversionTables - Predefined conversion tables for selectors and identifiers. Use if you want to preserve previous mappings.
- * @param params.ignorePatterns - Patterns for selectors and custom properties to ignore during transformation.
- * @param params.lightningcssOptions - Options for the lightningcss transform.
- * @returns An object containing the transformed CSS and conversion tables.
+ * @returns The conversion tables and the conversion functions.
  */
-export const transform: Transform = ({
-  css,
-  mode = "hash",
+const createConversionState = ({
+  mode,
   debugSymbol = "_",
   prefix,
   suffix,
   seed,
+  minimalAlphabet = "a-z",
+  hashLength,
+  hashEncoding,
+  hashAlgorithm = "xxh32",
+  hashCollision,
+  template,
+  reservedNames = [],
+  avoidAdBlockerNames = true,
   conversionTables,
-  ignorePatterns,
-  lightningcssOptions = {
-    minify: true,
-  },
-}) => {
-  // Use user provided conversion tables if available, otherwise create new ones
-  const selectorConversionTable: ConversionTable =
-    conversionTables?.selectors ??
-      {};
-  const identConversionTable: ConversionTable = conversionTables?.idents ?? {};
+  minimalOrder,
+  minimalTieBreak,
+}: Omit<TransformProps, "css">) => {
+  validateChoice("hashEncoding", hashEncoding, [
+    "hex",
+    "base36",
+    "base52",
+    "base62",
+  ]);
+  if (typeof hashAlgorithm !== "function") {
+    validateChoice("hashAlgorithm", hashAlgorithm, ["xxh32", "xxh64"]);
+  }
+  validateChoice("hashCollision", hashCollision, ["lengthen", "resalt"]);
+  validateChoice("minimalOrder", minimalOrder, ["appearance", "frequency"]);
+  validateChoice("minimalTieBreak", minimalTieBreak, [
+    "appearance",
+    "alphabetical",
+  ]);
+  const modes = normalizeModeOptions(mode);
+  const hashMeta: ConversionTablesMeta = {
+    algorithm: typeof hashAlgorithm === "function" ? "custom" : hashAlgorithm,
+    seedVersion: SEED_VERSION,
+  };
 
-  // Normalize prefix and suffix to get separate values for selectors and identifiers
+  // Never mix hashes of another algorithm or seed derivation into the tables
+  const loadedMeta = conversionTables?.meta;
+  const usesHash = Object.values(modes).some((categoryMode) =>
+    categoryMode === "hash" || categoryMode === "template"
+  );
+  if (
+    usesHash && loadedMeta &&
+    (loadedMeta.algorithm !== hashMeta.algorithm ||
+      loadedMeta.seedVersion !== hashMeta.seedVersion)
+  ) {
+    throw new Error(
+      `The conversion tables were generated with the ${loadedMeta.algorithm} algorithm and seed version ${loadedMeta.seedVersion}, but ${hashMeta.algorithm} and seed version ${hashMeta.seedVersion} are used now. Regenerate the tables, or remove their "meta" field to reuse them anyway.`,
+    );
+  }
+  //? Keep the meta of the loaded tables when nothing is hashed, as their hashes are kept as is
+  const meta = !usesHash && loadedMeta ? loadedMeta : hashMeta;
+
+  // Copy the user provided conversion tables if available, so they are never mutated, otherwise create new ones
+  const selectorTables = splitSelectorTable(conversionTables?.selectors);
+  const tables: Required<ConversionTables> = {
+    classes: { ...selectorTables.classes, ...conversionTables?.classes },
+    ids: { ...selectorTables.ids, ...conversionTables?.ids },
+    idents: { ...conversionTables?.idents },
+    keyframes: { ...conversionTables?.keyframes },
+    layers: { ...conversionTables?.layers },
+    containers: { ...conversionTables?.containers },
+    counters: { ...conversionTables?.counters },
+    gridAreas: { ...conversionTables?.gridAreas },
+    viewTransitions: { ...conversionTables?.viewTransitions },
+    customMedia: { ...conversionTables?.customMedia },
+    customSelectors: { ...conversionTables?.customSelectors },
+    parts: { ...conversionTables?.parts },
+  };
+
+  // Normalize prefix and suffix to get separate values for each category
   const normalizedPrefix = normalizeAffixOptions(prefix);
   const normalizedSuffix = normalizeAffixOptions(suffix);
 
@@ -454,46 +2140,337 @@ export const transform: Transform = ({
     ? stringSeedToNumber(seed)
     : seed;
 
-  // Create conversion functions based on the selected mode and custom seed
-  const selectorConvertFunc = createConversionFunction(
-    mode,
-    debugSymbol,
-    normalizedPrefix.selectors,
-    normalizedSuffix.selectors,
-    numericSeed,
-  );
+  // Expand the alphabet once, it throws if a character would need escaping
+  const alphabet = expandAlphabet(minimalAlphabet);
+
+  // Create a conversion function for a category based on the selected mode and custom seed
+  const createCategoryConvertFunc = (category: keyof ConversionTables) =>
+    createConversionFunction(
+      modes[category],
+      debugSymbol,
+      normalizedPrefix[category],
+      normalizedSuffix[category],
+      numericSeed,
+      alphabet,
+      isSelectorCategory(category) && avoidAdBlockerNames &&
+        (modes[category] === "hash" || modes[category] === "minimal")
+        ? [...AD_BLOCKER_SENSITIVE_NAMES, ...reservedNames]
+        : reservedNames,
+      {
+        length: hashLength,
+        encoding: hashEncoding,
+        algorithm: hashAlgorithm,
+        collision: hashCollision,
+      },
+      { template, category },
+    );
+
+  return {
+    tables,
+    meta,
+    modes,
+    convertFuncs: {
+      classes: createCategoryConvertFunc("classes"),
+      ids: createCategoryConvertFunc("ids"),
+      idents: createCategoryConvertFunc("idents"),
+      keyframes: createCategoryConvertFunc("keyframes"),
+      layers: createCategoryConvertFunc("layers"),
+      containers: createCategoryConvertFunc("containers"),
+      counters: createCategoryConvertFunc("counters"),
+      gridAreas: createCategoryConvertFunc("gridAreas"),
+      viewTransitions: createCategoryConvertFunc("viewTransitions"),
+      customMedia: createCategoryConvertFunc("customMedia"),
+      customSelectors: createCategoryConvertFunc("customSelectors"),
+      parts: createCategoryConvertFunc("parts"),
+    },
+  };
+};
+
+/**
+ * Assigns the shortest minimal names to the most used names of the categories in minimal mode,
+ * by counting the names of all inputs in a first pass before the actual transformation.
+ *
+ * @param state - The conversion tables, modes and conversion functions to assign the names with.
+ * @param inputs - The parameters of every input to count the names of.
+ * @param tieBreak - The order of names used equally often.
+ */
+const assignNamesByFrequency = (
+  { tables, modes, convertFuncs }: ReturnType<typeof createConversionState>,
+  inputs: TransformProps[],
+  tieBreak: "appearance" | "alphabetical",
+) => {
+  type ConvertFunc = ReturnType<typeof createConversionFunction>;
+  type Occurrence = { count: number; options: Parameters<ConvertFunc>[2] };
 
-  const identConvertFunc = createConversionFunction(
-    mode,
-    debugSymbol,
-    normalizedPrefix.idents,
-    normalizedSuffix.idents,
-    numericSeed,
+  const categories = Object.keys(tables) as (keyof ConversionTables)[];
+  const minimalCategories = categories.filter((category) =>
+    modes[category] === "minimal"
   );
+  if (minimalCategories.length === 0) {
+    return;
+  }
+  const occurrences = Object.fromEntries(
+    categories.map((category) => [category, new Map<string, Occurrence>()]),
+  ) as Record<keyof ConversionTables, Map<string, Occurrence>>;
+
+  // Count the names instead of converting them, the tables are copied to keep them untouched
+  const countingState = {
+    tables: structuredClone(tables),
+    convertFuncs: Object.fromEntries(
+      categories.map((category) => [
+        category,
+        ((value, _conversionTable, options) => {
+          const occurrence = occurrences[category].get(value) ??
+            { count: 0, options };
+          occurrence.count++;
+          occurrences[category].set(value, occurrence);
+          return value;
+        }) satisfies ConvertFunc,
+      ]),
+    ) as ReturnType<typeof createConversionState>["convertFuncs"],
+  };
+  inputs.forEach((input) => transformWithState(countingState, input, () => {}));
+
+  // Convert the most used names first, the sort keeps the order of appearance on ties
+  minimalCategories.forEach((category) => {
+    [...occurrences[category]].sort(([aName, a], [bName, b]) =>
+      b.count - a.count ||
+      (tieBreak === "alphabetical"
+        ? (aName < bName ? -1 : aName > bName ? 1 : 0)
+        : 0)
+    ).forEach(([name, { options }]) =>
+      convertFuncs[category](name, tables[category], options)
+    );
+  });
+};
+
+/**
+ * Transforms a single CSS file using shared conversion tables and conversion functions.
+ *
+ * @param state - The conversion tables and conversion functions to use.
+ * @param params - Parameters for the transformation.
+ * @param addWarning - Called for every warning of the file.
+ * @returns The transformed CSS, the source map if enabled and the other lightningcss output.
+ */
+const transformWithState = (
+  { tables, convertFuncs }: Pick<
+    ReturnType<typeof createConversionState>,
+    "tables" | "convertFuncs"
+  >,
+  {
+    css,
+    filename = "style.css",
+    ignorePatterns,
+    renameGridAreas = false,
+    renameParts = false,
+    renameClasses = true,
+    renameIds = true,
+    renameIdents = true,
+    strict = false,
+    inputSourceMap,
+    lightningcssOptions = {
+      minify: true,
+    },
+  }: TransformProps,
+  addWarning: (warning: TransformWarning) => void,
+) => {
+  const createError = (
+    message: string,
+    line?: number,
+    column?: number,
+    cause?: unknown,
+  ) =>
+    new CssSeasoningError(message, {
+      file: filename,
+      line,
+      column,
+      snippet: line ? css.split(/\r?\n/)[line - 1] : undefined,
+    }, { cause });
+
+  // Let the conversion functions know the file, eg. for the `[file]` placeholder of templates
+  const fileConvertFuncs = Object.fromEntries(
+    Object.entries(convertFuncs).map(([category, convertFunc]) => [
+      category,
+      ((value, conversionTable, options) =>
+        convertFunc(value, conversionTable, {
+          ...options,
+          file: filename,
+        })) satisfies typeof convertFunc,
+    ]),
+  ) as typeof convertFuncs;
 
   // Build visitor for lightningcss.Transform using provided conversion tables
   const visitor = INTERNAL_buildVisitor(
-    selectorConvertFunc,
-    identConvertFunc,
-    selectorConversionTable,
-    identConversionTable,
+    fileConvertFuncs,
+    tables,
     ignorePatterns,
+    renameGridAreas,
+    renameParts,
+    renameClasses,
+    renameIds,
+    renameIdents,
+    strict,
+    addWarning,
+    createError,
   );
 
-  const { code, ...otherOutput } = lightningcssTransform({
-    filename: "style.css",
-    code: new TextEncoder().encode(css),
-    visitor,
-    ...lightningcssOptions,
-  });
+  let output: ReturnType<typeof lightningcssTransform>;
+  try {
+    output = lightningcssTransform({
+      filename,
+      code: new TextEncoder().encode(css),
+      visitor,
+      ...lightningcssOptions,
+      ...(inputSourceMap !== undefined && {
+        sourceMap: true,
+        inputSourceMap: typeof inputSourceMap === "string"
+          ? inputSourceMap
+          : JSON.stringify(inputSourceMap),
+      }),
+    });
+  } catch (error: unknown) {
+    if (error instanceof CssSeasoningError) {
+      throw error;
+    }
+    const { loc } = error as { loc?: { line: number; column: number } }; // <- Set on lightningcss parse errors
+    throw createError(
+      error instanceof Error ? error.message : String(error),
+      loc?.line,
+      loc?.column,
+      error,
+    );
+  }
+  const { code, map, warnings: lightningcssWarnings, ...otherOutput } = output;
+
+  lightningcssWarnings.forEach(({ message, loc }) =>
+    addWarning({
+      code: "lightningcss",
+      message,
+      line: loc.line,
+      column: loc.column,
+    })
+  );
 
   const newCss = new TextDecoder().decode(code);
   return {
     css: newCss,
-    conversionTables: {
-      selectors: selectorConversionTable,
-      idents: identConversionTable,
-    },
     ...otherOutput,
+    map: map ? new TextDecoder().decode(map) : undefined,
+  };
+};
+
+/**
+ * Transforms CSS by processing selectors, dashed identifiers and other renamable names (eg. `@keyframes`, `@layer`) using a conversion mode.
+ *
+ * @param params - Parameters for the transformation.
+ * @param params.css - The input CSS as a string.
+ * @param params.filename - The name of the input file, used in errors and source maps; defaults to 'style.css'.
+ * @param params.mode - The conversion mode to use. 'hash' uses xxhash, 'minimal' assigns sequential alphabetical identifiers, 'debug' prefixes identifiers with a custom debug symbol, 'template' builds identifiers from a pattern, and a function gives the new name of each name. Can be an object with a mode for each category; defaults to 'hash'.
+ * @param params.template - The pattern of the names in template mode, eg. '[name]__[hash:5]'; defaults to '[name]__[hash:5]'.
+ * @param params.minimalOrder - The order in which minimal mode hands out names, 'frequency' gives the shortest names to the most used names; defaults to 'appearance'.
+ * @param params.minimalTieBreak - The order of names used equally often with the 'frequency' order; defaults to 'appearance'.
+ * @param params.minimalAlphabet - The characters of the names in minimal mode, eg. 'a-zA-Z0-9_-'; defaults to 'a-z'.
+ * @param params.hashLength - The number of characters of the hashes in hash mode; defaults to 8.
+ * @param params.hashEncoding - The encoding of the hashes in hash mode: 'hex', 'base36', 'base52' or 'base62'; defaults to 'hex'.
+ * @param params.hashAlgorithm - The hash algorithm in hash mode: 'xxh32', 'xxh64' or a function returning the hash of a value; defaults to 'xxh32'.
+ * @param params.hashCollision - Whether to 'lengthen' or 'resalt' a hash that is already used by another name; defaults to 'lengthen'.
+ * @param params.reservedNames - Names (exact strings or patterns) that are never generated, in every mode.
+ * @param params.avoidAdBlockerNames - Whether to never generate selector names hidden by ad-blockers, eg. 'ad', in hash and minimal mode; defaults to true.
+ * @param params.debugSymbol - The custom debug symbol to prefix in debug mode; defaults to '_' if not provided.
+ * @param params.prefix - In debug mode, the prefix to display after the debug symbol; defaults to an empty string.
+ * @param params.suffix - In debug mode, the suffix to append after the value; defaults to an empty string.
+ * @param params.seed - The custom seed (string or number) for hash mode.
+ * @param params.conversionTables - Predefined conversion tables for classes, ids, identifiers and other renamable names. Use if you want to preserve previous mappings.
+ * @param params.ignorePatterns - Patterns for selectors, custom properties and other renamable names to ignore during transformation.
+ * @param params.renameGridAreas - Whether to rename grid area and grid line names; defaults to false.
+ * @param params.renameParts - Whether to rename shadow part names in `::part()`; defaults to false.
+ * @param params.renameClasses - Whether to rename class names; defaults to true.
+ * @param params.renameIds - Whether to rename id names; defaults to true.
+ * @param params.renameIdents - Whether to rename custom properties; defaults to true.
+ * @param params.strict - Whether to throw on unknown pseudo-classes and pseudo-elements instead of reporting a warning; defaults to false.
+ * @param params.onWarning - Called for every warning as soon as it is reported.
+ * @param params.inputSourceMap - The source map of the input CSS to chain the output source map to.
+ * @param params.lightningcssOptions - Options for the lightningcss transform.
+ * @returns An object containing the transformed CSS, conversion tables, warnings and the source map if enabled.
+ */
+export const transform: Transform = (params) => {
+  const warnings: TransformWarning[] = [];
+  const addWarning = (warning: TransformWarning) => {
+    warnings.push(warning);
+    params.onWarning?.(warning);
+  };
+
+  const state = createConversionState(params);
+  if (params.minimalOrder === "frequency") {
+    assignNamesByFrequency(
+      state,
+      [params],
+      params.minimalTieBreak ?? "appearance",
+    );
+  }
+  const result = transformWithState(state, params, addWarning);
+  findTableConflicts(state.tables).forEach(addWarning);
+
+  return {
+    ...result,
+    conversionTables: { ...state.tables, meta: state.meta },
+    warnings,
+  };
+};
+
+/**
+ * Transforms several CSS files with one set of conversion tables and conversion functions,
+ * so a name gets the same value in every file and minimal mode keeps counting across files.
+ *
+ * @param params - Parameters for the transformation, the same as {@link transform} except for `css`, `filename` and `inputSourceMap`.
+ * @param params.files - The files to transform, each with a `filename`, its `css` and an optional `inputSourceMap`.
+ * @param params.onWarning - Called for every warning as soon as it is reported, with the name of the file it belongs to.
+ * @returns An object containing the transformed CSS of each file, the combined conversion tables and the warnings that do not belong to a file.
+ *
+ * @example
+ * ```ts
+ * const result = transformFiles({
+ *   files: [
+ *     { filename: "home.css", css: ".button { color: red; }" },
+ *     { filename: "about.css", css: ".button { color: blue; } .card { margin: 0; }" },
+ *   ],
+ *   mode: "minimal",
+ * });
+ * result.files.map(({ css }) => css); // [".a{color:red}", ".a{color:#00f}.b{margin:0}"]
+ * ```
+ */
+export const transformFiles: TransformFiles = ({
+  files,
+  onWarning,
+  ...params
+}) => {
+  const state = createConversionState(params);
+  if (params.minimalOrder === "frequency") {
+    assignNamesByFrequency(
+      state,
+      files.map((file) => ({ ...params, ...file })),
+      params.minimalTieBreak ?? "appearance",
+    );
+  }
+  const results = files.map(({ filename, css, inputSourceMap }) => {
+    const warnings: TransformWarning[] = [];
+    const result = transformWithState(
+      state,
+      { ...params, css, filename, inputSourceMap },
+      (warning) => {
+        warnings.push(warning);
+        onWarning?.(warning, filename);
+      },
+    );
+    return { filename, ...result, warnings };
+  });
+
+  const warnings = findTableConflicts(state.tables);
+  warnings.forEach((warning) => onWarning?.(warning));
+
+  return {
+    files: results,
+    conversionTables: { ...state.tables, meta: state.meta },
+    warnings,
   };
 };
@@ -7,18 +7,45 @@ import type { CustomAtRules, TransformOptions } from "lightningcss-wasm";
  */
 export type ConversionTable = Record<string, string>;
 
+/**
+ * Describes how the hashes of saved conversion tables were generated,
+ * so they are never reused with another algorithm or seed derivation by mistake.
+ */
+export interface ConversionTablesMeta {
+  /**
+   * The hash algorithm, `custom` for a user-supplied function.
+   */
+  algorithm: "xxh32" | "xxh64" | "custom";
+
+  /**
+   * The version of the derivation of numeric seeds from string seeds.
+   */
+  seedVersion: number;
+}
+
 /**
  * Represents a group of conversion tables supported by this package.
- * This includes both selector and identifier conversion tables.
+ * This includes class, id and identifier conversion tables,
+ * as well as tables for other renamable names such as `@keyframes`.
  */
 export interface ConversionTables {
   /**
-   * Mapping for selector conversion.
+   * Mapping for class name conversion, eg. `{ "\\.button": "\\.a" }`.
+   *
+   * ## **Note**
+   * Make sure the keys are **escaped** properly.
+   * Ensure the keys and values include the `.` prefix.
+   */
+  classes: ConversionTable;
+
+  /**
+   * Mapping for id name conversion, eg. `{ "\\#header": "\\#a" }`.
    *
    * ## **Note**
    * Make sure the keys are **escaped** properly.
+   * Ensure the keys and values include the `#` prefix.
    */
-  selectors: ConversionTable;
+  ids: ConversionTable;
 
   /**
    * Mapping for identifier conversion.
@@ -28,6 +55,94 @@ export interface ConversionTables {
    * Ensure they do not include the `--` prefix.
    */
   idents: ConversionTable;
+
+  /**
+   * Mapping for `@keyframes` name conversion.
+   * Applies to both the `@keyframes` rule and the `animation`/`animation-name` references.
+   *
+   * ## **Note**
+   * Make sure the keys are **escaped** properly.
+   */
+  keyframes?: ConversionTable;
+
+  /**
+   * Mapping for `@layer` name conversion.
+   * Dotted layer names (eg. `components.button`) are converted segment by segment.
+   *
+   * ## **Note**
+   * Make sure the keys are **escaped** properly.
+   */
+  layers?: ConversionTable;
+
+  /**
+   * Mapping for container name conversion.
+   * Applies to `container-name`, the `container` shorthand and `@container` queries.
+   *
+   * ## **Note**
+   * Make sure the keys are **escaped** properly.
+   */
+  containers?: ConversionTable;
+
+  /**
+   * Mapping for counter and counter style name conversion.
+   * Applies to `counter-reset`/`counter-increment`/`counter-set`, `counter()`/`counters()`,
+   * `list-style-type` and `@counter-style` rules.
+   *
+   * ## **Note**
+   * Make sure the keys are **escaped** properly.
+   * Built-in names such as `list-item` or `decimal` are never converted.
+   */
+  counters?: ConversionTable;
+
+  /**
+   * Mapping for grid area and grid line name conversion.
+   * Only used when `renameGridAreas` is enabled.
+   * Line names ending with `-start`/`-end` are stored under their area name,
+   * so implicit area lines (eg. `sidebar-start`) stay in sync with the area.
+   *
+   * ## **Note**
+   * Make sure the keys are **escaped** properly.
+   */
+  gridAreas?: ConversionTable;
+
+  /**
+   * Mapping for view transition name and class conversion.
+   * Applies to `view-transition-name`, `view-transition-class`, `view-transition-group`
+   * and the arguments of `::view-transition-*()` pseudo-elements.
+   *
+   * ## **Note**
+   * Make sure the keys are **escaped** properly.
+   */
+  viewTransitions?: ConversionTable;
+
+  /**
+   * Mapping for `@custom-media` name conversion.
+   *
+   * ## **Note**
+   * Make sure the keys are **escaped** properly.
+   * Ensure they do not include the `--` prefix.
+   */
+  customMedia?: ConversionTable;
+
+  /**
+   * Mapping for `@custom-selector` name conversion.
+   * Class and id names inside a `@custom-selector` definition use the `classes` and `ids` tables.
+   *
+   * ## **Note**
+   * Make sure the keys are **escaped** properly.
+   * Ensure they do not include the `:--` prefix.
+   */
+  customSelectors?: ConversionTable;
+
+  /**
+   * Mapping for shadow part name conversion.
+   * Only used when `renameParts` is enabled.
+   * Applies to the arguments of `::part()` pseudo-elements.
+   *
+   * ## **Note**
+   * Make sure the keys are **escaped** properly.
+   */
+  parts?: ConversionTable;
 }
 
 /**
@@ -35,29 +150,245 @@ export interface ConversionTables {
  */
 export interface PrefixSuffixOptions {
   /**
-   * The value to be applied to selectors
+   * The value to be applied to both classes and ids, unless `classes` or `ids` is set
    */
   selectors?: string;
 
+  /**
+   * The value to be applied to class names
+   */
+  classes?: string;
+
+  /**
+   * The value to be applied to id names
+   */
+  ids?: string;
+
   /**
    * The value to be applied to identifiers (custom properties)
    */
   idents?: string;
+
+  /**
+   * The value to be applied to `@keyframes` names
+   */
+  keyframes?: string;
+
+  /**
+   * The value to be applied to `@layer` names
+   */
+  layers?: string;
+
+  /**
+   * The value to be applied to container names
+   */
+  containers?: string;
+
+  /**
+   * The value to be applied to counter and counter style names
+   */
+  counters?: string;
+
+  /**
+   * The value to be applied to grid area and grid line names
+   */
+  gridAreas?: string;
+
+  /**
+   * The value to be applied to view transition names and classes
+   */
+  viewTransitions?: string;
+
+  /**
+   * The value to be applied to `@custom-media` names
+   */
+  customMedia?: string;
+
+  /**
+   * The value to be applied to `@custom-selector` names
+   */
+  customSelectors?: string;
+
+  /**
+   * The value to be applied to shadow part names
+   */
+  parts?: string;
+}
+
+/**
+ * The kind of a renamable name.
+ */
+export type NameKind =
+  | "class"
+  | "id"
+  | "ident"
+  | "keyframes"
+  | "layer"
+  | "container"
+  | "counter"
+  | "grid-area"
+  | "view-transition"
+  | "custom-media"
+  | "custom-selector"
+  | "part";
+
+/**
+ * What a {@link NamingFunction} knows about the name to convert.
+ */
+export interface NamingContext {
+  /**
+   * The kind of the name, eg. `class` or `keyframes`.
+   */
+  kind: NameKind;
+
+  /**
+   * The file the name is first found in.
+   */
+  file?: string;
+
+  /**
+   * The number of names converted before in the same table, starting at 0.
+   */
+  index: number;
+
+  /**
+   * The conversion table of the name so far, with escaped keys and values.
+   */
+  table: Readonly<ConversionTable>;
 }
 
+/**
+ * A function that gives the new name of a name, eg. to add a department prefix.
+ *
+ * @param original - The original name, without the `.`, `#` or `--` prefix, eg. `button` for `.button`.
+ * @param context - The kind, file, index and table of the name.
+ * @returns The new name, not escaped.
+ */
+export type NamingFunction = (
+  original: string,
+  context: NamingContext,
+) => string;
+
+/**
+ * The encoding of the hashes in hash mode.
+ * - `hex`: `0-9a-f`
+ * - `base36`: `0-9a-z`
+ * - `base52`: `a-zA-Z`
+ * - `base62`: `0-9a-zA-Z`
+ */
+export type HashEncoding = "hex" | "base36" | "base52" | "base62";
+
+/**
+ * The hash algorithm of hash mode.
+ * - `xxh32`: 32-bit xxhash.
+ * - `xxh64`: 64-bit xxhash.
+ * - A function that returns the hash of a value for a numeric seed, eg. to use a cryptographic hash.
+ */
+export type HashAlgorithm =
+  | "xxh32"
+  | "xxh64"
+  | ((value: string, seed?: number) => string);
+
+/**
+ * The mode of transformation, see {@link TransformProps.mode}.
+ */
+export type Mode = "hash" | "minimal" | "debug" | "template" | NamingFunction;
+
+/**
+ * Separate modes for each category, `hash` by default.
+ * `selectors` applies to both classes and ids, unless `classes` or `ids` is set.
+ */
+export type ModeOptions = {
+  [Category in keyof ConversionTables | "selectors"]?: Mode;
+};
+
 export interface TransformProps {
   /**
    * The CSS code to be transformed.
    */
   css: string;
 
+  /**
+   * The name of the file the CSS comes from, used in errors, warnings and source maps.
+   *
+   * @default "style.css"
+   */
+  filename?: string;
+
   /**
    * The mode of transformation.
    * - `hash`: Generates a reproducible hash for each selector and identifier.
    * - `minimal`: Minimizes the key into an alphanumeric string (e.g., "a", "b", "c"...)
    * - `debug`: Won't change the targeted selectors or identifiers fully but prefixes them with a debug symbol.
+   * - `template`: Builds the names from the `template` pattern, eg. `[name]__[hash:5]`.
+   * - A {@link NamingFunction}: Gives the new name of each name.
+   *   The names are still escaped, and a name that is reserved or already used by another name of the same table gets a `-1`, `-2`, ... suffix.
+   *
+   * Can be provided as either:
+   * - A mode that applies to all categories
+   * - An object with separate modes for each category, eg. `{ classes: "minimal", ids: "hash" }`
+   *
+   * @default "hash"
+   */
+  mode?: Mode | ModeOptions;
+
+  /**
+   * The pattern of the names in template mode, with the placeholders:
+   * - `[name]`: The original name, without the `.`, `#` or `--` prefix and with the characters that need escaping replaced by `_`.
+   * - `[hash]`, `[hash:N]`: The hash of the original name, `N` characters long (`hashLength` by default).
+   * - `[file]`: The name of the file the original name is first found in, without directories and extensions.
+   * - `[index]`: The number of names converted before in the same table, starting at 0.
+   * - `[kind]`: The kind of the name, see {@link NameKind}.
+   *
+   * The result must be a valid CSS identifier, eg. it must not start with a digit.
+   * A name that is reserved or already used by another name of the same table gets a `-1`, `-2`, ... suffix.
+   *
+   * @default "[name]__[hash:5]"
+   */
+  template?: string;
+
+  /**
+   * The order in which minimal mode hands out names.
+   * - `appearance`: In the order the names appear in the CSS.
+   * - `frequency`: The most used names get the shortest names, counted in a first pass over all input files.
+   *
+   * @default "appearance"
+   */
+  minimalOrder?: "appearance" | "frequency";
+
+  /**
+   * The order of names used equally often when `minimalOrder` is `frequency`.
+   * - `appearance`: In the order the names appear in the CSS.
+   * - `alphabetical`: Alphabetically, so the output does not depend on the rule order.
+   *
+   * @default "appearance"
+   */
+  minimalTieBreak?: "appearance" | "alphabetical";
+
+  /**
+   * The characters of the names in minimal mode, eg. `a-zA-Z` or `a-zA-Z0-9_-`.
+   * Ranges are written as `x-y`, a `-` at the start or the end is taken as is.
+   * Digits and `-` are never used as the first character, so the names stay valid CSS identifiers.
+   *
+   * @default "a-z"
    */
-  mode?: "hash" | "minimal" | "debug";
+  minimalAlphabet?: string;
+
+  /**
+   * Names that are never generated, in every mode, eg. to avoid clashes with third-party CSS.
+   * Strings are exact names and regular expressions are patterns, both without the `.`, `#` or `--` prefix.
+   * A reserved name is skipped: minimal mode takes the next name, hash mode lengthens the hash (or re-salts it, see `hashCollision`) and debug mode numbers the name.
+   */
+  reservedNames?: (string | RegExp)[];
+
+  /**
+   * Whether to never generate selector names that are hidden by the generic filters of common ad-blockers,
+   * eg. `ad`, `ads` or `banner`.
+   * Only applies to hash and minimal mode, the other modes keep the original name in the new name.
+   *
+   * @default true
+   */
+  avoidAdBlockerNames?: boolean;
 
   /**
    * The debug symbol to be used in debug mode.
@@ -69,8 +400,8 @@ export interface TransformProps {
    * The prefix to be prepended to transformed selectors and identifiers.
    *
    * Can be provided as either:
-   * - A string that applies to both selectors and identifiers
-   * - An object with separate values for selectors and identifiers
+   * - A string that applies to all categories
+   * - An object with separate values for each category
    */
   prefix?: string | PrefixSuffixOptions;
 
@@ -78,8 +409,8 @@ export interface TransformProps {
    * The suffix to be appended to transformed selectors and identifiers.
    *
    * Can be provided as either:
-   * - A string that applies to both selectors and identifiers
-   * - An object with separate values for selectors and identifiers
+   * - A string that applies to all categories
+   * - An object with separate values for each category
    */
   suffix?: string | PrefixSuffixOptions;
 
@@ -91,35 +422,211 @@ export interface TransformProps {
   seed?: string | number;
 
   /**
-   * Predefined conversion tables for selectors and identifiers.
+   * The number of characters of the hashes in hash mode.
+   *
+   * @default 8
+   */
+  hashLength?: number;
+
+  /**
+   * The encoding of the hashes in hash mode.
+   * A hash never starts with a digit, so it stays a valid CSS identifier.
+   *
+   * @default "hex"
+   */
+  hashEncoding?: HashEncoding;
+
+  /**
+   * The hash algorithm of hash mode.
+   * A custom function returns the hash itself, so `hashLength` and `hashEncoding` are ignored
+   * and colliding hashes are always re-salted.
+   *
+   * @default "xxh32"
+   */
+  hashAlgorithm?: HashAlgorithm;
+
+  /**
+   * What to do when a hash is already used by another name of the same table in hash mode.
+   * - `lengthen`: Adds characters to the hash until it is unique.
+   * - `resalt`: Hashes the name again with another seed until it is unique.
+   *
+   * Every collision is reported as a `hash-collision` warning.
+   *
+   * @default "lengthen"
+   */
+  hashCollision?: "lengthen" | "resalt";
+
+  /**
+   * Predefined conversion tables for selectors, identifiers and other renamable names.
    * Use if you want to preserve previous mappings.
    */
-  conversionTables?: Partial<ConversionTables>;
+  conversionTables?: Partial<ConversionTables> & {
+    /**
+     * The class and id table of older versions, with the `.` or `#` prefix in its keys.
+     * It is split into the `classes` and `ids` tables.
+     *
+     * @deprecated Use `classes` and `ids` instead.
+     */
+    selectors?: ConversionTable;
+
+    /**
+     * How the hashes of the tables were generated, as saved by a previous transformation.
+     * Loading tables generated with another hash algorithm or seed version throws in hash mode.
+     */
+    meta?: ConversionTablesMeta;
+  };
 
   /**
    * Patterns to ignore when transforming CSS.
    * Any selector or custom property that matches one of the patterns will be left unchanged.
    *
    * Can be provided as either:
-   * - An array of patterns that apply to both selectors and identifiers
-   * - An object with separate patterns for selectors and identifiers
+   * - An array of patterns that apply to all categories
+   * - An object with separate patterns for each category
    */
   ignorePatterns?: {
     /**
-     * Patterns for selectors to ignore during transformation.
+     * Patterns for selectors to ignore during transformation, unless `classes` or `ids` is set.
      * Any selector that matches one of these regular expressions will be left unchanged.
      * Patterns should match the selector name without the prefix (e.g., "button" for ".button").
      */
     selectors?: (string | RegExp)[];
 
+    /**
+     * Patterns for class names to ignore during transformation.
+     * Patterns should match the class name without the `.` prefix (e.g., "button" for ".button").
+     */
+    classes?: (string | RegExp)[];
+
+    /**
+     * Patterns for id names to ignore during transformation.
+     * Patterns should match the id name without the `#` prefix (e.g., "header" for "#header").
+     */
+    ids?: (string | RegExp)[];
+
     /**
      * Patterns for custom properties (identifiers) to ignore during transformation.
      * Any custom property that matches one of these regular expressions will be left unchanged.
      * Patterns should match the property name without the '--' prefix (e.g., "color" for "--color").
      */
     idents?: (string | RegExp)[];
+
+    /**
+     * Patterns for `@keyframes` names to ignore during transformation.
+     * Any keyframes name that matches one of these regular expressions will be left unchanged,
+     * along with the `animation`/`animation-name` references to it.
+     */
+    keyframes?: (string | RegExp)[];
+
+    /**
+     * Patterns for `@layer` names to ignore during transformation.
+     * Patterns are matched against each segment of a dotted layer name (e.g., "button" for "components.button").
+     */
+    layers?: (string | RegExp)[];
+
+    /**
+     * Patterns for container names to ignore during transformation.
+     * Any container name that matches one of these regular expressions will be left unchanged.
+     */
+    containers?: (string | RegExp)[];
+
+    /**
+     * Patterns for counter and counter style names to ignore during transformation.
+     * Any counter name that matches one of these regular expressions will be left unchanged.
+     */
+    counters?: (string | RegExp)[];
+
+    /**
+     * Patterns for grid area and grid line names to ignore during transformation.
+     * Patterns should match the name without the `-start`/`-end` suffix (e.g., "sidebar" for "sidebar-start").
+     */
+    gridAreas?: (string | RegExp)[];
+
+    /**
+     * Patterns for view transition names and classes to ignore during transformation.
+     * Any view transition name or class that matches one of these regular expressions will be left unchanged.
+     */
+    viewTransitions?: (string | RegExp)[];
+
+    /**
+     * Patterns for `@custom-media` names to ignore during transformation.
+     * Patterns should match the name without the `--` prefix (e.g., "tablet" for "--tablet").
+     */
+    customMedia?: (string | RegExp)[];
+
+    /**
+     * Patterns for `@custom-selector` names to ignore during transformation.
+     * Patterns should match the name without the `:--` prefix (e.g., "heading" for ":--heading").
+     */
+    customSelectors?: (string | RegExp)[];
+
+    /**
+     * Patterns for shadow part names to ignore during transformation.
+     * Any part name that matches one of these regular expressions will be left unchanged.
+     */
+    parts?: (string | RegExp)[];
   } | (string | RegExp)[];
 
+  /**
+   * Whether to rename grid area and grid line names (opt-in).
+   * Renames names in `grid-template-areas`, named lines in track lists and every
+   * property that references them (eg. `grid-area`, `grid-row`, `grid-column-start`).
+   *
+   * @default false
+   */
+  renameGridAreas?: boolean;
+
+  /**
+   * Whether to rename shadow part names in `::part()` (opt-in).
+   * Part names are also used in the `part` and `exportparts` HTML attributes,
+   * so they need to be updated with the `parts` conversion table.
+   *
+   * @default false
+   */
+  renameParts?: boolean;
+
+  /**
+   * Whether to rename class names.
+   *
+   * @default true
+   */
+  renameClasses?: boolean;
+
+  /**
+   * Whether to rename id names.
+   *
+   * @default true
+   */
+  renameIds?: boolean;
+
+  /**
+   * Whether to rename custom property names (identifiers).
+   *
+   * @default true
+   */
+  renameIdents?: boolean;
+
+  /**
+   * Whether to throw an error when a selector contains a pseudo-class or pseudo-element
+   * that is not known to be safe to keep, instead of reporting a warning and leaving it untouched.
+   *
+   * @default false
+   */
+  strict?: boolean;
+
+  /**
+   * Called for every warning as soon as it is reported.
+   * The warnings are also available in `TransformResult.warnings`.
+   */
+  onWarning?: (warning: TransformWarning) => void;
+
+  /**
+   * The source map of the input CSS, eg. from Sass or PostCSS, as a JSON string or object.
+   * The output source map is chained to it so it points to the original sources,
+   * and is generated even if `lightningcssOptions.sourceMap` is not set.
+   */
+  inputSourceMap?: string | object;
+
   /**
    * Options for the LightningCSS transformation.
    */
@@ -128,9 +635,61 @@ export interface TransformProps {
     | "filename"
     | "code"
     | "visitor"
+    | "inputSourceMap"
   >;
 }
 
+/**
+ * The kind of a transform warning.
+ * - `unhandled-selector`: A selector part that is kept as is because it is unknown.
+ * - `ignored-name`: A name that is kept as is because it matches an ignore pattern.
+ * - `lightningcss`: A warning reported by lightningcss, eg. an invalid media query.
+ * - `table-conflict`: Several names that are converted to the same value in a conversion table.
+ * - `hash-collision`: A name whose hash is already used by another name, it gets another hash.
+ */
+export type TransformWarningCode =
+  | "unhandled-selector"
+  | "ignored-name"
+  | "lightningcss"
+  | "table-conflict"
+  | "hash-collision";
+
+/**
+ * A warning reported during the transformation.
+ */
+export interface TransformWarning {
+  /**
+   * The kind of the warning.
+   */
+  code: TransformWarningCode;
+
+  /**
+   * A human readable description of the warning.
+   */
+  message: string;
+
+  /**
+   * The selector the warning is about, if any.
+   */
+  selector?: string;
+
+  /**
+   * The identifier the warning is about (eg. a custom property or `@keyframes` name), if any.
+   */
+  ident?: string;
+
+  /**
+   * The line in the source CSS, starting at 1.
+   * For names, this is the line of the rule they appear in.
+   */
+  line?: number;
+
+  /**
+   * The column in the source CSS, starting at 1.
+   */
+  column?: number;
+}
+
 export interface TransformResult {
   /**
    * The transformed CSS code.
@@ -140,7 +699,89 @@ export interface TransformResult {
   /**
    * The conversion tables used during the transformation.
    */
-  conversionTables: ConversionTables;
+  conversionTables: Required<ConversionTables> & {
+    /**
+     * How the hashes of the tables were generated.
+     */
+    meta: ConversionTablesMeta;
+  };
+
+  /**
+   * The warnings reported during the transformation.
+   */
+  warnings: TransformWarning[];
+
+  /**
+   * The source map of the transformed CSS as a JSON string,
+   * if `inputSourceMap` or `lightningcssOptions.sourceMap` is set.
+   */
+  map?: string;
 }
 
 export type Transform = (params: TransformProps) => TransformResult;
+
+export interface TransformFileInput {
+  /**
+   * The name of the file, used in errors, warnings and source maps.
+   */
+  filename: string;
+
+  /**
+   * The input CSS as a string.
+   */
+  css: string;
+
+  /**
+   * The source map of the input CSS, see `TransformProps.inputSourceMap`.
+   */
+  inputSourceMap?: string | object;
+}
+
+export interface TransformFilesProps
+  extends
+    Omit<TransformProps, "css" | "filename" | "inputSourceMap" | "onWarning"> {
+  /**
+   * The files to transform with one set of conversion tables.
+   */
+  files: TransformFileInput[];
+
+  /**
+   * A callback that is called for every warning as soon as it is reported.
+   * `filename` is the file the warning belongs to, if any.
+   */
+  onWarning?: (warning: TransformWarning, filename?: string) => void;
+}
+
+export interface TransformFileResult
+  extends Omit<TransformResult, "conversionTables"> {
+  /**
+   * The name of the file.
+   */
+  filename: string;
+}
+
+export interface TransformFilesResult {
+  /**
+   * The transformation result of each file, in the same order as the input files.
+   */
+  files: TransformFileResult[];
+
+  /**
+   * The combined conversion tables used for all files.
+   */
+  conversionTables: Required<ConversionTables> & {
+    /**
+     * How the hashes of the tables were generated.
+     */
+    meta: ConversionTablesMeta;
+  };
+
+  /**
+   * The warnings that do not belong to a file, eg. table conflicts.
+   */
+  warnings: TransformWarning[];
+}
+
+export type TransformFiles = (
+  params: TransformFilesProps,
+) => TransformFilesResult;
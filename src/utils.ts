@@ -1,4 +1,9 @@
-import type { Selector, SelectorComponent } from "lightningcss-wasm";
+import type {
+  Selector,
+  SelectorComponent,
+  TokenOrValue,
+} from "lightningcss-wasm";
+import type { HashAlgorithm, HashEncoding } from "@/types.ts";
 import { transform as lightningcssTransform } from "lightningcss-wasm";
 import xxhash from "xxhash-wasm";
 
@@ -20,45 +25,111 @@ const LOWERCASE_A_CHARCODE = 97;
 const LOWERCASE_Z_CHARCODE = 122;
 
 /**
- * Converts a string seed into a numeric seed by summing character codes.
+ * The version of the string seed derivation, bump it whenever {@link stringSeedToNumber} changes.
+ * - `1`: Sum of the character codes.
+ * - `2`: 32-bit xxhash of the string.
+ */
+export const SEED_VERSION = 2;
+
+/**
+ * Converts a string seed into a numeric seed by hashing it,
+ * so anagrams (eg. `"ab"` and `"ba"`) give different seeds.
  *
  * @param strSeed - The string seed to convert.
  * @returns A numeric representation of the string seed.
  */
 export const stringSeedToNumber = (strSeed: string): number => {
-  let numSeed = 0;
-  for (let i = 0; i < strSeed.length; i++) {
-    numSeed += strSeed.charCodeAt(i);
+  if (!hashInstance) {
+    throw new Error(
+      "Hash instance not initialized. Call initializeHash() first.",
+    );
   }
-  return numSeed;
+  return hashInstance.h32(strSeed);
+};
+
+/**
+ * The digits of each hash encoding.
+ */
+const HASH_ENCODING_DIGITS: Record<HashEncoding, string> = {
+  hex: "0123456789abcdef",
+  base36: "0123456789abcdefghijklmnopqrstuvwxyz",
+  base52: "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ",
+  base62: "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ",
 };
 
 /**
  * Generates a hash value from a string.
+ * A longer hash starts with the shorter hash of the same value, seed, encoding and algorithm.
  *
  * @param value - The string to hash.
  * @param seed - Optional seed for the hash function.
- * @returns A hash value with a lowercase first character.
+ * @param options - The length, encoding and algorithm of the hash; defaults to 8 hex characters of xxh32.
+ * A custom algorithm returns the hash itself, so the length and encoding are ignored.
+ * @returns A hash value with a letter as the first character.
  *
  * @example
  * ```ts
  * generateHash("example", 1); // Returns a consistent hash that starts with lowercase
+ * generateHash("example", 1, { length: 6, encoding: "base62" }); // Returns a consistent 6 characters hash
+ * generateHash("example", 1, { algorithm: "xxh64" }); // Returns a consistent hash of the 64-bit xxhash
  * ```
  */
-export const generateHash = (value: string, seed?: number): string => {
+export const generateHash = (
+  value: string,
+  seed?: number,
+  { length = 8, encoding = "hex", algorithm = "xxh32" }: {
+    length?: number;
+    encoding?: HashEncoding;
+    algorithm?: HashAlgorithm;
+  } = {},
+): string => {
   if (!hashInstance) {
     throw new Error(
       "Hash instance not initialized. Call initializeHash() first.",
     );
   }
+  if (!Number.isInteger(length) || length < 1) {
+    throw new Error(`Invalid hash length: ${length}`);
+  }
   //? Hash start with number will break the CSS selector
 
-  let hashValue = hashInstance.h32ToString(value, seed);
+  let hashValue = "";
+  if (typeof algorithm === "function") {
+    hashValue = algorithm(value, seed);
+    //? The hash goes into the name as is, so it has to be made of identifier characters
+    if (typeof hashValue !== "string" || !/^[\w-]+$/.test(hashValue)) {
+      throw new Error(
+        `The hash algorithm gives ${
+          JSON.stringify(hashValue)
+        } for "${value}", expected a non-empty string of letters, digits, "_" or "-"`,
+      );
+    }
+  } else {
+    // Append the hashes of the following seeds until the hash is long enough
+    const digits = HASH_ENCODING_DIGITS[encoding];
+    const base = BigInt(digits.length);
+    const bits = algorithm === "xxh64" ? 64 : 32;
+    const digitsPerHash = Math.floor(bits / Math.log2(digits.length));
+    for (let round = 0; hashValue.length < length; round++) {
+      const roundSeed = Math.trunc(seed ?? 0) + round;
+      let n = algorithm === "xxh64"
+        ? hashInstance.h64(value, BigInt.asUintN(64, BigInt(roundSeed)))
+        : BigInt(hashInstance.h32(value, roundSeed >>> 0));
+      let block = "";
+      for (let i = 0; i < digitsPerHash; i++) {
+        block = digits[Number(n % base)] + block;
+        n /= base;
+      }
+      hashValue += block;
+    }
+    hashValue = hashValue.slice(0, length);
+  }
   const firstCharCode = hashValue.charCodeAt(0);
 
-  // If the first character is not lowercase, map to lowercase range of a-z
+  // If the first character is a digit, map to lowercase range of a-z
   if (
-    firstCharCode < LOWERCASE_A_CHARCODE || firstCharCode > LOWERCASE_Z_CHARCODE
+    (firstCharCode < LOWERCASE_A_CHARCODE ||
+      firstCharCode > LOWERCASE_Z_CHARCODE) && !/[A-Z]/.test(hashValue[0])
   ) {
     const newCharCode = LOWERCASE_A_CHARCODE + (firstCharCode % 26);
     hashValue = String.fromCharCode(newCharCode) + hashValue.slice(1);
@@ -215,6 +286,54 @@ export const parseSelectorComponent = (
   return output;
 };
 
+/**
+ * Converts a string to a list of CSS tokens.
+ *
+ * @param str - The string to tokenize.
+ * @returns An array of TokenOrValue parsed from the string.
+ *
+ * @example
+ * ```ts
+ * parseTokens(".test"); // [{ type: "token", value: { type: "delim", value: "." } }, { type: "token", value: { type: "ident", value: "test" } }]
+ * parseTokens("#test"); // [{ type: "token", value: { type: "id-hash", value: "test" } }]
+ * ```
+ *
+ * ## **Note**
+ * This function is **computationally expensive** and should be used with caution.
+ */
+export const parseTokens = (str: string): TokenOrValue[] => {
+  const output: TokenOrValue[] = [];
+  lightningcssTransform({
+    filename: "style.css",
+    code: new TextEncoder().encode(
+      `@tokens ${str};`, //? Preludes of unknown at-rules are kept as raw tokens
+    ),
+    visitor: {
+      Rule: {
+        unknown: {
+          tokens(rule) {
+            output.push(...rule.prelude);
+          },
+        },
+      },
+    },
+  });
+  return output;
+};
+
+let keepsDelimWhitespace: boolean | undefined;
+
+/**
+ * Checks if lightningcss keeps the whitespace next to the delimiters of raw tokens, eg. in `a .b`.
+ * Older versions drop it, and write a space after every delimiter instead.
+ *
+ * @returns Whether the whitespace is kept, checked once.
+ */
+export const keepsTokenWhitespace = (): boolean =>
+  keepsDelimWhitespace ??= parseTokens("a .b").some((token) =>
+    token.type === "token" && token.value.type === "white-space"
+  );
+
 /**
  * Converts a selector object to a string.
  *
@@ -302,10 +421,72 @@ export const stringifySelectorComponent = (
   );
 };
 
+/**
+ * Checks if a character can start a CSS identifier without escaping.
+ */
+const isIdentifierStartChar = (char: string) =>
+  /^[a-zA-Z_]$/.test(char) || char.charCodeAt(0) > 0x7f;
+
+/**
+ * Expands and validates an alphabet for minimal names, eg. `a-zA-Z0-9_-`.
+ * Ranges are written as `x-y`, a `-` at the start or the end is taken as is.
+ *
+ * @param alphabet - The alphabet to expand.
+ * @returns The characters of the alphabet.
+ *
+ * @example
+ * ```ts
+ * expandAlphabet("a-c"); // "abc"
+ * expandAlphabet("a-cX_-"); // "abcX_-"
+ * expandAlphabet("a.b"); // Error: "." needs escaping in CSS identifiers
+ * ```
+ */
+export const expandAlphabet = (alphabet: string): string => {
+  const chars = [...alphabet];
+  const expanded: string[] = [];
+  for (let i = 0; i < chars.length; i++) {
+    if (chars[i + 1] === "-" && i + 2 < chars.length) { // eg. a-z
+      const start = chars[i].codePointAt(0)!;
+      const end = chars[i + 2].codePointAt(0)!;
+      if (start > end) {
+        throw new Error(
+          `Invalid alphabet range: "${chars[i]}-${chars[i + 2]}"`,
+        );
+      }
+      for (let code = start; code <= end; code++) {
+        expanded.push(String.fromCodePoint(code));
+      }
+      i += 2;
+    } else {
+      expanded.push(chars[i]);
+    }
+  }
+
+  expanded.forEach((char, index) => {
+    if (!/^[a-zA-Z0-9_-]$/.test(char) && char.charCodeAt(0) <= 0x7f) {
+      throw new Error(
+        `Invalid alphabet character: "${char}" needs escaping in CSS identifiers`,
+      );
+    }
+    if (expanded.indexOf(char) !== index) {
+      throw new Error(`Duplicated alphabet character: "${char}"`);
+    }
+  });
+  if (!expanded.some(isIdentifierStartChar)) {
+    throw new Error(
+      "Invalid alphabet: at least one letter or `_` is needed to start a CSS identifier",
+    );
+  }
+  return expanded.join("");
+};
+
 /**
  * Converts a number to its alphabetical representation.
+ * Only letters, `_` and non-ASCII characters of the alphabet are used as the first character,
+ * so the result is a valid CSS identifier without escaping.
  *
  * @param num - The number to convert.
+ * @param alphabet - The characters to use, see {@link expandAlphabet}; defaults to `a-z`.
  * @returns The alphabetical string.
  *
  * @example
@@ -315,17 +496,38 @@ export const stringifySelectorComponent = (
  * numberToLetters(25); // "z"
  * numberToLetters(26); // "aa"
  * numberToLetters(27); // "ab"
+ * numberToLetters(1, "a0"); // "aa"
+ * numberToLetters(2, "a0"); // "a0"
  * ```
  */
-export const numberToLetters = (num: number): string => {
+export const numberToLetters = (
+  num: number,
+  alphabet = "abcdefghijklmnopqrstuvwxyz",
+): string => {
+  const chars = [...alphabet];
+  const firstChars = chars.filter(isIdentifierStartChar);
+  if (firstChars.length === 0) {
+    throw new Error(
+      "Invalid alphabet: at least one letter or `_` is needed to start a CSS identifier",
+    );
+  }
+
+  // Find the length of the name, there are firstChars * chars^(length - 1) names of each length
+  let n = num;
+  let length = 1;
+  let count = firstChars.length;
+  while (n >= count) {
+    n -= count;
+    count *= chars.length;
+    length++;
+  }
+
   let s = "";
-  let n = num + 1; // make it 1-indexed
-  while (n > 0) {
-    const rem = (n - 1) % 26;
-    s = String.fromCharCode(97 + rem) + s;
-    n = Math.floor((n - 1) / 26);
+  for (let i = 1; i < length; i++) {
+    s = chars[n % chars.length] + s;
+    n = Math.floor(n / chars.length);
   }
-  return s;
+  return firstChars[n] + s;
 };
 
 /**
@@ -386,3 +588,45 @@ export const matchesAnyPattern = (
     return pattern.test(value);
   });
 };
+
+/**
+ * Creates a code frame that points at a location in the source, eg. to display an error.
+ *
+ * @param source - The source code.
+ * @param line - The line to point at, starting at 1.
+ * @param column - The column to point at, starting at 1.
+ * @param contextLines - The number of lines to show before and after the line.
+ * @returns The lines around the location, with a marker under the column.
+ *
+ * @example
+ * ```ts
+ * createCodeFrame(".a {}\n.b { ]\n.c {}", 2, 6);
+ * //   1 | .a {}
+ * // > 2 | .b { ]
+ * //     |      ^
+ * //   3 | .c {}
+ * ```
+ */
+export const createCodeFrame = (
+  source: string,
+  line: number,
+  column?: number,
+  contextLines = 2,
+): string => {
+  const lines = source.split(/\r?\n/);
+  const start = Math.max(line - 1 - contextLines, 0);
+  const end = Math.min(line + contextLines, lines.length);
+  const gutterWidth = String(end).length;
+
+  return lines.slice(start, end).flatMap((text, index) => {
+    const lineNumber = start + index + 1;
+    const gutter = String(lineNumber).padStart(gutterWidth);
+    if (lineNumber !== line) {
+      return [`  ${gutter} | ${text}`];
+    }
+    const marker = column
+      ? [`  ${" ".repeat(gutterWidth)} | ${" ".repeat(column - 1)}^`]
+      : [];
+    return [`> ${gutter} | ${text}`, ...marker];
+  }).join("\n");
+};